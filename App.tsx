@@ -1,130 +1,33 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Agent, AgentStatus, UserInput, DocumentHistory, ThesisStructure, ApiConfig } from './types';
-import { runAgentStepStructured, regenerateSpecificSections } from './services/geminiService';
+import { Agent, AgentStatus, UserInput, DocumentHistory, ThesisStructure, ApiConfig, RunHooks, UsageRecord, PriceTable, CacheMode, RunMode, WorkflowTemplate, StepPromptRecord } from './types';
+import { runAgentStepStructured, regenerateSpecificSections, runReviewAgent, refreshThesisMemory } from './services/geminiService';
+import { resolveReviser } from './services/sectionReviews';
+import { commitPromptVersion, snapshotPrompts } from './services/promptVersions';
+import { normalizeApiConfig } from './services/providers';
+import { loadProfileStore, getActiveProfile, toProfileConfig } from './services/apiProfiles';
+import { isCancelledError, PartialRunError } from './services/llmErrors';
+import { planNextWave, mergeStepResults, removeStep } from './services/workflowGraph';
+import { migrateAgents } from './services/agentKinds';
+import { writeAutosave, readAutosave, getAutosaveInfo, AutosaveInfo } from './services/autosave';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, instantiateTemplate, loadUserTemplates } from './services/workflowTemplates';
+import { startRecording, stopRecording, downloadTranscript } from './services/transcript';
 import WorkflowBuilder from './components/WorkflowBuilder';
 import InputForm from './components/InputForm';
 import ResultViewer from './components/ResultViewer';
 import SettingsModal from './components/SettingsModal';
-import { GraduationCap, FastForward, RotateCcw, CheckCircle2, Terminal, Trash2, Save, Upload } from 'lucide-react';
-
-const ARCHITECT_PROMPT = `
-### 角色
-你是一位**硕士论文架构师**。
-
-### 原则
-1. **结构**：仅输出严格的 JSON 格式。
-2. **逻辑**：根据用户主题创建具体、非通用的标题。
-3. **格式**：使用 Markdown 标题 (#, ##, ###)。
-
-### 核心结构要求 (关键)
-- **闭环设计**：硕士论文的核心章节（通常第3-5章）每一章都必须是**“提出方法/理论 + 实验验证”**的闭环结构。
-- **禁止拆分**：**严禁**将“实验结果与分析”单独设为一章。实验内容必须紧随其对应的理论方法出现在同一章的后半部分。
-- **完整性**：必须包含摘要、绪论、相关工作、核心方法章节（多章）、总结与展望。
-
-### JSON 输出格式 (必须严格遵守)
-请直接返回 JSON 对象，不要包含任何 Markdown 代码块标记（如 \`\`\`json），也不要包含前导或解释性文字。
-格式范例：
-{
-  "sections": [
-    { "id": "s_abs", "title": "摘要", "level": 1 },
-    { "id": "s_1", "title": "# 第一章 绪论", "level": 1 },
-    { "id": "s_3", "title": "# 第三章 [核心方法名]", "level": 1 },
-    { "id": "s_3_1", "title": "## 3.1 理论分析", "level": 2 },
-    { "id": "s_3_2", "title": "## 3.2 实验验证", "level": 2 }
-  ]
-}
-
-### 步骤
-1. 分析用户输入（主题/领域）。
-2. 设计 5-7 章结构。
-3. 细化核心章节的三级标题（确保前半部分是理论，后半部分是实验）。
-4. 输出 JSON。
-`;
-
-const PLANNER_PROMPT = `
-### 角色
-你是一位**学术内容撰写专家**。
-
-### 原则
-1. **纯净正文（重要）**：输出的内容**绝对不要**包含章节标题本身。渲染器会自动添加标题。你只需直接写正文段落。
-2. **纯文字模式**：**严禁生成任何 Markdown 表格、图片占位符或图表描述**。这些将由专门的视觉专家生成。你专注于文字阐述、逻辑推导和公式证明。
-3. **数学公式**：**必须**使用 LaTeX 格式。行内公式使用 $...$，独立公式用双美元符号 $$...$$。
-4. **完整性**：你将收到一个章节下的多个小节 ID。你需要一次性为**所有**这些 ID 撰写内容。
-5. **深度**：内容必须包含数学公式推导、理论证明和详尽的数据分析（以文字形式描述）。
-6. **格式**：输出 JSON，Key 为 ID，Value 为 Markdown 正文。
-
-### 策略
-- **批量处理**：不要只写一个。遍历所有传入的 ID，逐个生成高质量内容。
-- **转义**：JSON 值中的 LaTeX 公式 ($\\\\alpha$) 和换行符 (\\\\n) 必须正确转义。
-
-### 步骤
-1. 阅读该章节下所有小节的标题。
-2. 为每个 ID 撰写对应的学术正文（不带标题，不带图表）。
-3. 合并为一个 JSON 对象返回。
-`;
-
-const VISUALS_PROMPT = `
-### 角色
-你是一位**数据可视化专家**。
-**重要**：不要生成图片文件。仅生成 Markdown 表格源码和图表说明文字。
-
-### 范围约束
-- 图表通常出现在**第一章绪论**到**总结与展望之前**的章节。
-- 如果当前处理的是“摘要”、“致谢”、“参考文献”或“总结与展望”章节，请返回空内容。
-
-### 原则
-1. **丰富性**：为当前章节设计丰富的数据表格和图表说明。
-2. **格式**：Markdown 表格。
-3. **图注与描述**：
-   - 使用 "> [图 x-y] 图表标题" 的格式作为图注。
-   - **必须**在每个图表或表格下方附带一段**详细的图表描述或数据分析**（Markdown 引用块格式或其他区分格式），解释图表展示了什么趋势或结果。
-4. **纯净性**：严禁生成普通正文段落和标题，只返回图表、图注和图表相关的分析描述。
-
-### 步骤
-1. 扫描章节内的小节。
-2. 如果是实验部分，设计对比数据表（Results Table）并附加分析。
-3. 如果是方法部分，设计流程图描述（Flowchart Description）并附加解释。
-4. 返回 JSON。
-`;
-
-const INITIAL_AGENTS: Agent[] = [
-  { 
-    id: '1', 
-    name: '架构师 (Architect)', 
-    role: '结构搭建', 
-    description: '生成高逻辑性的论文骨架 JSON。严格遵循“一章一方法一实验”的闭环原则。', 
-    icon: 'layout', 
-    status: 'idle',
-    systemPrompt: ARCHITECT_PROMPT
-  },
-  { 
-    id: '2', 
-    name: '内容策划 (Planner)', 
-    role: '正文填充', 
-    description: '按章批量生成学术正文（专注于纯文本、公式推导，不含图表）。', 
-    icon: 'pen', 
-    status: 'idle',
-    systemPrompt: PLANNER_PROMPT
-  },
-  { 
-    id: '3', 
-    name: '视觉/数据专家 (Visuals)', 
-    role: '图表植入', 
-    description: '生成 Markdown 表格源码与详细的图表分析描述 (第一章至总结前)。', 
-    icon: 'table', 
-    status: 'idle',
-    systemPrompt: VISUALS_PROMPT
-  },
-  {
-    id: 'final_draft',
-    name: '总编审 (Chief Editor)',
-    role: '终稿渲染与查漏', 
-    description: '检查全文完整性。若发现缺失的正文或图表，将自动进行补充生成，最后渲染终稿。', 
-    icon: 'merge', 
-    status: 'idle',
-    systemPrompt: `(系统自动执行查漏补缺)`
-  }
+import UsagePanel from './components/UsagePanel';
+import CacheBrowser from './components/CacheBrowser';
+import TemplateLibrary from './components/TemplateLibrary';
+import { DEFAULT_PRICE_TABLE, groupUsage } from './services/usage';
+import { GraduationCap, FastForward, RotateCcw, CheckCircle2, Terminal, Trash2, Save, Upload, Database, Circle, Square, Play, History, LayoutTemplate } from 'lucide-react';
+
+const INITIAL_AGENTS: Agent[] = instantiateTemplate(BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_ID)!);
+
+const RUN_MODES: { id: RunMode; label: string; hint: string }[] = [
+  { id: 'stepwise', label: '逐步确认', hint: '每个步骤完成后暂停，等待确认。' },
+  { id: 'onError', label: '出错暂停', hint: '仅在步骤失败或输出校验失败时暂停，每步自动存档。' },
+  { id: 'unattended', label: '无人值守', hint: '从不暂停，失败步骤的后续步骤不会执行，每步自动存档。' }
 ];
 
 interface LogEntry {
@@ -137,30 +40,59 @@ function App() {
   const [input, setInput] = useState<UserInput>({ field: '', topic: '', specificFocus: '' });
   const [agents, setAgents] = useState<Agent[]>(INITIAL_AGENTS);
   
-  const [apiConfig, setApiConfig] = useState<ApiConfig>({
-    baseUrl: 'https://yinli.one/v1',
-    apiKey: '',
-    modelName: 'gemini-2.5-flash',
-    useCustom: true
-  });
+  // Starts from the active saved profile (see SettingsModal)
+  const [apiConfig, setApiConfig] = useState<ApiConfig>(() => toProfileConfig(getActiveProfile(loadProfileStore())));
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isCacheBrowserOpen, setIsCacheBrowserOpen] = useState(false);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [userTemplates, setUserTemplates] = useState<WorkflowTemplate[]>(() => loadUserTemplates());
+  // Template the current workflow was last built from
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [isRecordingTranscript, setIsRecordingTranscript] = useState(false);
 
   const [thesisStructure, setThesisStructure] = useState<ThesisStructure>([]);
   const [docHistory, setDocHistory] = useState<DocumentHistory>({});
   
-  // Execution State
-  const [currentAgentIndex, setCurrentAgentIndex] = useState<number>(-1);
+  // Execution State: the steps of the wave that ran last (several when branches run in parallel)
+  const [currentStepIds, setCurrentStepIds] = useState<string[]>([]);
   const [isWorking, setIsWorking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [runMode, setRunMode] = useState<RunMode>('stepwise');
+  // Read by waves that were started before the mode was switched (e.g. to stepwise to halt a long run)
+  const runModeRef = useRef(runMode);
+  runModeRef.current = runMode;
+  // Bumped after every step of a run that does not stop at checkpoints; saved once the state has settled
+  const [autosaveTick, setAutosaveTick] = useState(0);
+  const [autosaveInfo, setAutosaveInfo] = useState<AutosaveInfo | null>(() => getAutosaveInfo());
   
   // Selection & Regeneration State
   const [selectedSectionIds, setSelectedSectionIds] = useState<Set<string>>(new Set());
   const [modificationInstruction, setModificationInstruction] = useState('');
+  // Rewrites should normally produce a new answer, so skip cached responses by default
+  const [forceFreshRegen, setForceFreshRegen] = useState(true);
+  // Which step of a parallel wave performs rewrites
+  const [regenAgentId, setRegenAgentId] = useState<string>('');
+  // Chapters (batch titles) each failed step could not write, shown next to its recovery actions
+  const [failedChapters, setFailedChapters] = useState<Record<string, string[]>>({});
+  // Sections of those chapters, which a retry runs again
+  const [failedSectionIds, setFailedSectionIds] = useState<Record<string, string[]>>({});
+  // Failed step whose system prompt is being edited before a retry
+  const [promptEditStepId, setPromptEditStepId] = useState<string | null>(null);
+  const [promptDraft, setPromptDraft] = useState('');
+  // Prompt versions every step run used, in run order
+  const [promptRecords, setPromptRecords] = useState<StepPromptRecord[]>([]);
 
   // Logs
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [streamedTokens, setStreamedTokens] = useState(0);
+
+  // Token usage & cost accounting
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [priceTable, setPriceTable] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Cancellation token of the agent step / regeneration currently running
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const addLog = (message: string, type: 'info' | 'success' | 'error' = 'info') => {
     const time = new Date().toLocaleTimeString('zh-CN', { hour12: false });
@@ -184,8 +116,18 @@ function App() {
     });
   };
 
+  const handleApplyTemplate = (template: WorkflowTemplate) => {
+    setAgents(instantiateTemplate(template));
+    setActiveTemplateId(template.id);
+    addLog(`已应用工作流模板: ${template.name}`, 'info');
+  };
+
   const handleRemoveAgent = (id: string) => {
-    setAgents(prev => prev.filter(a => a.id !== id));
+    setAgents(prev => removeStep(prev, id));
+  };
+
+  const handleUpdateAgent = (id: string, patch: Partial<Agent>) => {
+    setAgents(prev => prev.map(a => a.id === id ? { ...a, ...patch } : a));
   };
 
   const updateAgentStatus = (id: string, status: AgentStatus, wordCount?: number) => {
@@ -194,21 +136,62 @@ function App() {
 
   const countWords = (str: string) => str ? str.replace(/\s/g, '').length : 0;
 
+  // Streaming hooks: fill sections in the live canvas as text arrives, count tokens, report retries
+  // and book token usage against the agent that made the call
+  const createRunHooks = (agentId: string, cacheMode: CacheMode = 'default', signal?: AbortSignal, resume?: boolean, onlySectionIds?: string[]): RunHooks => ({
+    cacheMode,
+    signal,
+    resume,
+    onlySectionIds,
+    onSectionDelta: (sectionId, field, text) => {
+      setThesisStructure(prev => prev.map(s => s.id === sectionId ? { ...s, [field]: text } : s));
+    },
+    onTokens: (tokens) => setStreamedTokens(prev => prev + tokens),
+    onLog: addLog,
+    onUsage: (usage) => setUsageRecords(prev => [...prev, { ...usage, agentId, timestamp: new Date().toISOString() }])
+  });
+
+  // --- Transcript Recording ---
+
+  const handleToggleRecording = () => {
+    if (!isRecordingTranscript) {
+      startRecording();
+      setIsRecordingTranscript(true);
+      addLog("开始录制 LLM 对话记录。", 'info');
+      return;
+    }
+    const transcript = stopRecording();
+    setIsRecordingTranscript(false);
+    if (transcript && transcript.entries.length > 0) {
+      downloadTranscript(transcript, `thesis_forge_transcript_${input.topic.slice(0, 10)}`);
+      addLog(`录制结束，已导出 ${transcript.entries.length} 条请求/响应记录。`, 'success');
+    } else {
+      addLog("录制结束，没有捕获到任何请求。", 'info');
+    }
+  };
+
   // --- Session Management ---
 
+  const buildSessionData = () => ({
+    timestamp: new Date().toISOString(),
+    input,
+    agents,
+    thesisStructure,
+    docHistory,
+    logs,
+    currentStepIds,
+    isPaused,
+    isWorking, // though we usually save when paused
+    runMode,
+    activeTemplateId,
+    apiConfig, // SAVE THE CONFIG so user doesn't lose API Key on reload
+    usageRecords,
+    priceTable,
+    promptRecords
+  });
+
   const handleSaveSession = () => {
-    const sessionData = {
-      timestamp: new Date().toISOString(),
-      input,
-      agents,
-      thesisStructure,
-      docHistory,
-      logs,
-      currentAgentIndex,
-      isPaused,
-      isWorking, // though we usually save when paused
-      apiConfig // SAVE THE CONFIG so user doesn't lose API Key on reload
-    };
+    const sessionData = buildSessionData();
     
     const blob = new Blob([JSON.stringify(sessionData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -222,6 +205,57 @@ function App() {
     addLog("进度已保存为 JSON 文件。", 'success');
   };
 
+  const applySessionData = (json: any) => {
+    // Steps that were running when the session was saved (an autosave mid-run, or a crash)
+    // come back as stopped, so the checkpoint offers to resume them
+    const wasRunning = (json.agents || []).some((a: Agent) => a.status === 'working');
+    setInput(json.input);
+    setAgents(migrateAgents(json.agents).map(a => a.status === 'working' ? { ...a, status: 'waiting' as AgentStatus } : a));
+    setThesisStructure(json.thesisStructure);
+    setDocHistory(json.docHistory);
+    setLogs(json.logs || []);
+    // Saves from the linear pipeline stored the index of the current agent
+    const legacyStep = json.agents?.[json.currentAgentIndex]?.id;
+    setCurrentStepIds(json.currentStepIds || (legacyStep ? [legacyStep] : []));
+    setIsPaused(json.isPaused || wasRunning);
+    setUsageRecords(json.usageRecords || []);
+    setPromptRecords(json.promptRecords || []);
+    if (json.priceTable) setPriceTable(json.priceTable);
+    if (json.runMode) setRunMode(json.runMode);
+    setActiveTemplateId(json.activeTemplateId || '');
+    // Restore API Config if present
+    if (json.apiConfig) {
+       setApiConfig(normalizeApiConfig(json.apiConfig));
+    } else {
+       addLog("提示: 存档中未检测到API配置，请记得在设置中重新填写API Key。", 'info');
+    }
+
+    // Force stop working on load to prevent weird states
+    setIsWorking(false);
+  };
+
+  const handleRestoreAutosave = () => {
+    const json = readAutosave();
+    if (!json?.input || !json.thesisStructure) {
+      alert("自动存档不存在或已损坏。");
+      setAutosaveInfo(null);
+      return;
+    }
+    applySessionData(json);
+    addLog(`已恢复自动存档 (${new Date(json.timestamp).toLocaleString('zh-CN', { hour12: false })})。`, 'success');
+  };
+
+  // **AUTOSAVE**: runs after the step's results have been rendered, so the snapshot is complete
+  useEffect(() => {
+    if (autosaveTick === 0) return;
+    const session = buildSessionData();
+    if (writeAutosave(session)) {
+      setAutosaveInfo({ timestamp: session.timestamp, topic: input.topic });
+    } else {
+      addLog("自动存档失败 (浏览器存储空间不足)，请手动保存进度。", 'error');
+    }
+  }, [autosaveTick]);
+
   const handleLoadSessionClick = () => {
     fileInputRef.current?.click();
   };
@@ -235,23 +269,7 @@ function App() {
       try {
         const json = JSON.parse(event.target?.result as string);
         if (json.input && json.thesisStructure) {
-          setInput(json.input);
-          setAgents(json.agents);
-          setThesisStructure(json.thesisStructure);
-          setDocHistory(json.docHistory);
-          setLogs(json.logs || []);
-          setCurrentAgentIndex(json.currentAgentIndex ?? -1);
-          setIsPaused(json.isPaused || false);
-          // Restore API Config if present
-          if (json.apiConfig) {
-             setApiConfig(json.apiConfig);
-          } else {
-             addLog("提示: 存档中未检测到API配置，请记得在设置中重新填写API Key。", 'info');
-          }
-
-          // Force stop working on load to prevent weird states
-          setIsWorking(false);
-          
+          applySessionData(json);
           addLog("进度加载成功！请检查状态并继续。", 'success');
         } else {
           alert("无效的存档文件格式。");
@@ -271,80 +289,236 @@ function App() {
   const startWorkflow = () => {
     if (!input.topic) return;
     setLogs([]);
+    setStreamedTokens(0);
+    setUsageRecords([]);
+    setPromptRecords([]);
     setDocHistory({});
     setThesisStructure([]);
-    setCurrentAgentIndex(0);
+    setCurrentStepIds([]);
     setIsWorking(true);
     setIsPaused(false);
     setSelectedSectionIds(new Set());
     setModificationInstruction('');
     
-    setAgents(prev => prev.map(a => ({ ...a, status: 'waiting', wordCount: 0 })));
+    const queued = agents.map(a => ({ ...a, status: 'waiting' as AgentStatus, wordCount: 0 }));
+    setAgents(queued);
     addLog("工作流已启动。Agent 队列初始化完成。", 'info');
     
-    // Start the first agent
-    runAgentStep(0, []);
+    // Start the root steps
+    advanceWorkflow(queued, []);
   };
 
-  const runAgentStep = async (index: number, currentStruct: ThesisStructure) => {
-    if (index >= agents.length) {
-      addLog("所有 Agent 执行完毕。工作流结束。", 'success');
+  // Marks steps whose condition fails as skipped and starts the next ready wave.
+  // `agentList` carries the statuses of this run, which the rendered state may not show yet.
+  const advanceWorkflow = (agentList: Agent[], currentStruct: ThesisStructure) => {
+    const { run, skipped } = planNextWave(agentList, currentStruct);
+
+    skipped.forEach(({ id, reason }) => {
+      updateAgentStatus(id, 'skipped');
+      addLog(`已跳过: ${agentList.find(a => a.id === id)?.name} (${reason})`, 'info');
+    });
+    const skippedIds = skipped.map(s => s.id);
+    const nextList = agentList.map(a => skippedIds.includes(a.id) ? { ...a, status: 'skipped' as AgentStatus } : a);
+
+    if (run.length === 0) {
+      const blocked = nextList.filter(a => a.status === 'error');
       setIsWorking(false);
+      if (blocked.length > 0) {
+        // Stop at the failed steps so they can still be retried or skipped
+        addLog(`以下步骤失败，其后续步骤尚未执行: ${blocked.map(a => a.name).join('、')}。可重试、跳过或修改提示词后重试。`, 'error');
+        setCurrentStepIds(blocked.map(a => a.id));
+        setIsPaused(true);
+        return;
+      }
+      addLog("所有 Agent 执行完毕。工作流结束。", 'success');
       setIsPaused(false);
-      setCurrentAgentIndex(-1);
+      setCurrentStepIds([]);
       return;
     }
 
-    const agent = agents[index];
-    addLog(`正在启动: ${agent.name}...`, 'info');
-    updateAgentStatus(agent.id, 'working');
-    setIsWorking(true);
+    runWave(run, currentStruct, nextList);
+  };
 
-    try {
-      // Execute the agent
-      const result = await runAgentStepStructured(
-        agent,
-        input,
-        currentStruct,
-        apiConfig
+  const handleStop = () => {
+    if (!abortControllerRef.current) return;
+    addLog("正在停止当前任务...", 'info');
+    abortControllerRef.current.abort();
+  };
+
+  // Runs the steps of one wave in parallel under a shared stop token and merges their results
+  const runWave = async (stepIds: string[], currentStruct: ThesisStructure, agentList: Agent[], options: { resume?: boolean; onlySectionIds?: string[] } = {}) => {
+    const wave = agentList.filter(a => stepIds.includes(a.id));
+    setCurrentStepIds(stepIds);
+    setRegenAgentId(stepIds[0]);
+    wave.forEach(agent => {
+      addLog(
+        options.onlySectionIds ? `正在重试: ${agent.name} (仅失败章节的 ${options.onlySectionIds.length} 个小节)...`
+          : options.resume ? `正在恢复: ${agent.name} (跳过已完成章节)...`
+          : `正在启动: ${agent.name}...`,
+        'info'
       );
+      updateAgentStatus(agent.id, 'working');
+      // **PROMPT TRACE**: record the exact prompt versions this run uses
+      const { promptVersions, record } = snapshotPrompts(agent);
+      setAgents(prev => prev.map(a => a.id === agent.id
+        ? { ...a, promptVersions: [...(a.promptVersions || []), ...promptVersions.filter(v => !a.promptVersions?.some(p => p.id === v.id))] }
+        : a));
+      setPromptRecords(prev => [...prev, record]);
+    });
+    const clearFailed = (prev: Record<string, string[]>) => {
+      const next = { ...prev };
+      stepIds.forEach(id => delete next[id]);
+      return next;
+    };
+    setFailedChapters(clearFailed);
+    setFailedSectionIds(clearFailed);
+    if (wave.length > 1) addLog(`${wave.length} 个步骤并行执行中。`, 'info');
+    setIsWorking(true);
 
-      // Update State
-      setThesisStructure(result.structure);
-      setDocHistory(prev => ({ ...prev, [agent.id]: result.markdown }));
-      
-      const wc = countWords(result.markdown);
-      updateAgentStatus(agent.id, 'completed', wc);
-      addLog(`${agent.name} 执行完成 (字数: ${wc})。`, 'success');
-      addLog(`工作流已暂停。请检查右侧结果。满意请点击“继续”，否则选中部分内容进行重写。`, 'info');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      // Pause for Checkpoint
-      setIsPaused(true);
-      setIsWorking(false);
-      
-      // Auto-select nothing on new step
-      setSelectedSectionIds(new Set());
-      setModificationInstruction('');
+    const outcomes = await Promise.allSettled(wave.map(agent => runAgentStepStructured(
+      agent,
+      input,
+      currentStruct,
+      apiConfig,
+      createRunHooks(agent.id, agent.bypassCache ? 'bypass' : 'default', controller.signal, options.resume, options.onlySectionIds),
+      agent.kind === 'critic' ? resolveReviser(agent, agentList) : undefined
+    )));
+    if (abortControllerRef.current === controller) abortControllerRef.current = null;
+
+    // Finished steps contribute their result; stopped and partially failed ones the chapters they completed
+    const results: ThesisStructure[] = [];
+    const finalStatus: Record<string, AgentStatus> = {};
+    let stopped = false;
+    let failed = false;
+    // Sections completed steps left unwritten because the model's output stayed invalid
+    const unrecoveredIds: string[] = [];
+
+    outcomes.forEach((outcome, i) => {
+      const agent = wave[i];
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value.structure);
+        setDocHistory(prev => ({ ...prev, [agent.id]: outcome.value.markdown }));
+        const wc = countWords(outcome.value.markdown);
+        finalStatus[agent.id] = 'completed';
+        updateAgentStatus(agent.id, 'completed', wc);
+        addLog(`${agent.name} 执行完成 (字数: ${wc})。`, 'success');
+        if (outcome.value.unrecoveredSectionIds.length > 0) {
+          unrecoveredIds.push(...outcome.value.unrecoveredSectionIds);
+          addLog(`${agent.name}: ${outcome.value.unrecoveredSectionIds.length} 个小节的输出未通过校验，内容为空或保持原样，可选中后重写。`, 'error');
+        }
+        return;
+      }
 
-    } catch (err: any) {
+      const err = outcome.reason;
+      if (isCancelledError(err)) {
+        // **STOPPED**: keep finished chapters, drop half-streamed text, and wait at a resumable checkpoint
+        if (err.partialStructure) results.push(err.partialStructure);
+        finalStatus[agent.id] = 'waiting';
+        updateAgentStatus(agent.id, 'waiting');
+        addLog(`${agent.name} 已停止。已完成的章节已保留，可点击“继续本步骤”从中断处恢复。`, 'info');
+        stopped = true;
+        return;
+      }
       console.error(err);
+      if (err instanceof PartialRunError) {
+        // Keep the chapters that did finish
+        results.push(err.partialStructure);
+        setFailedChapters(prev => ({ ...prev, [agent.id]: err.failedChapters }));
+        setFailedSectionIds(prev => ({ ...prev, [agent.id]: err.failedSectionIds }));
+        addLog(`失败章节: ${err.failedChapters.join('、')}`, 'error');
+      }
       addLog(`错误: ${agent.name} 执行失败 - ${err.message}`, 'error');
+      finalStatus[agent.id] = 'error';
       updateAgentStatus(agent.id, 'error');
-      setIsWorking(false);
-      // Even on error, we pause to let user see logs or retry manually (not implemented yet, but safe state)
+      failed = true;
+    });
+
+    const merged = mergeStepResults(currentStruct, results);
+    setThesisStructure(merged);
+    setIsWorking(false);
+    const mode = runModeRef.current;
+    if (mode !== 'stepwise') setAutosaveTick(t => t + 1);
+
+    // **RUN MODE**: a stop always waits for the user; otherwise the mode decides whether this is a checkpoint
+    const invalidOutput = unrecoveredIds.length > 0;
+    const shouldPause = stopped || mode === 'stepwise' || ((failed || invalidOutput) && mode === 'onError');
+    if (!shouldPause) {
+      // Failed steps block only their own dependents, the rest of the graph keeps going
+      advanceWorkflow(agentList.map(a => finalStatus[a.id] ? { ...a, status: finalStatus[a.id] } : a), merged);
+      return;
+    }
+
+    if (failed) {
+      addLog(`工作流已暂停。失败步骤的后续步骤不会执行，点击“继续”运行其余步骤。`, 'info');
+    } else if (invalidOutput && mode === 'onError') {
+      addLog(`工作流已暂停: 部分小节的输出未通过校验。已选中这些小节，可直接重写，或点击“继续”。`, 'info');
+    } else if (!stopped) {
+      addLog(`工作流已暂停。请检查右侧结果。满意请点击“继续”，否则选中部分内容进行重写。`, 'info');
     }
+    // Pause for Checkpoint
+    setIsPaused(true);
+    
+    // Preselect the sections whose output stayed invalid, so they can be rewritten right away
+    setSelectedSectionIds(new Set(unrecoveredIds));
+    setModificationInstruction('');
+  };
+
+  const handleResumeStep = () => {
+    const stoppedSteps = currentStepIds.filter(id => agents.find(a => a.id === id)?.status === 'waiting');
+    if (stoppedSteps.length === 0) return;
+    setIsPaused(false);
+    setSelectedSectionIds(new Set());
+    setModificationInstruction('');
+    runWave(stoppedSteps, thesisStructure, agents, { resume: true });
+  };
+
+  // **FAILED STEP RECOVERY**: a retry runs only the sections of the chapters that failed, so chapters
+  // that succeeded are kept as they are (also for rewrite and append passes, which cannot tell them
+  // apart from the text). A step that failed as a whole resumes on the current structure.
+  const handleRetryFailedStep = (id: string, agentList: Agent[] = agents) => {
+    setIsPaused(false);
+    setSelectedSectionIds(new Set());
+    setModificationInstruction('');
+    runWave([id], thesisStructure, agentList, { resume: true, onlySectionIds: failedSectionIds[id] });
+  };
+
+  const handleSkipFailedStep = (id: string) => {
+    updateAgentStatus(id, 'skipped');
+    addLog(`已跳过失败步骤: ${agents.find(a => a.id === id)?.name}。继续后其后续步骤将照常执行。`, 'info');
+  };
+
+  const openPromptEditor = (agent: Agent) => {
+    setPromptEditStepId(agent.id);
+    setPromptDraft(agent.systemPrompt);
+  };
+
+  const handleRetryWithPrompt = () => {
+    if (!promptEditStepId) return;
+    const id = promptEditStepId;
+    const patch = commitPromptVersion(agents.find(a => a.id === id)!, 'system', promptDraft, '失败后修改重试');
+    handleUpdateAgent(id, patch);
+    setPromptEditStepId(null);
+    addLog(`已更新 ${agents.find(a => a.id === id)?.name} 的提示词，正在重试。`, 'info');
+    // The state update is not visible yet, so the run gets the edited agent directly
+    handleRetryFailedStep(id, agents.map(a => a.id === id ? { ...a, ...patch } : a));
   };
 
   const handleContinue = () => {
-    if (currentAgentIndex === -1) return; // Should not happen
-    const nextIndex = currentAgentIndex + 1;
-    setCurrentAgentIndex(nextIndex);
+    if (currentStepIds.length === 0) return; // Should not happen
+    // Stopped steps of this wave are accepted as they are, like finished ones
+    const accepted = agents.map(a =>
+      currentStepIds.includes(a.id) && a.status === 'waiting' ? { ...a, status: 'completed' as AgentStatus } : a
+    );
+    setAgents(accepted);
     setIsPaused(false);
     setSelectedSectionIds(new Set());
     setModificationInstruction('');
     
     // Pass the latest structure
-    runAgentStep(nextIndex, thesisStructure);
+    advanceWorkflow(accepted, thesisStructure);
   };
 
   const handleRegenerateSelected = async () => {
@@ -353,32 +527,60 @@ function App() {
       return;
     }
     
-    const currentAgent = agents[currentAgentIndex];
+    const currentAgent = agents.find(a => a.id === regenAgentId && currentStepIds.includes(a.id))
+      || agents.find(a => a.id === currentStepIds[0]);
     if (!currentAgent) return;
 
     addLog(`正在重写 ${selectedSectionIds.size} 个选中部分 (使用 ${currentAgent.name})...`, 'info');
     setIsWorking(true); // Temporary working state during regen
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const structureBefore = thesisStructure;
+
     try {
-      const updatedStructure = await regenerateSpecificSections(
-        currentAgent,
-        input,
-        thesisStructure,
-        Array.from(selectedSectionIds),
-        apiConfig,
-        modificationInstruction // Pass user instruction
-      );
+      const hooks = createRunHooks(currentAgent.id, currentAgent.bypassCache ? 'bypass' : forceFreshRegen ? 'refresh' : 'default', controller.signal);
+      // A critic re-runs its review loop on the selection instead of writing text itself
+      const updatedStructure = currentAgent.kind === 'critic'
+        ? await runReviewAgent(currentAgent, resolveReviser(currentAgent, agents), input, thesisStructure, apiConfig, hooks, Array.from(selectedSectionIds))
+        : await regenerateSpecificSections(
+            currentAgent,
+            input,
+            thesisStructure,
+            Array.from(selectedSectionIds),
+            apiConfig,
+            modificationInstruction, // Pass user instruction
+            hooks
+          );
+
+      // Rewritten chapters get new summaries; stopping during that still keeps the rewrite
+      const withMemory = await refreshThesisMemory(updatedStructure, input, apiConfig, hooks)
+        .catch(e => {
+          if (isCancelledError(e)) return e.partialStructure || updatedStructure;
+          throw e;
+        });
 
       // Update State
-      setThesisStructure(updatedStructure);
+      setThesisStructure(withMemory);
       
       addLog(`重写完成。`, 'success');
       setSelectedSectionIds(new Set()); // Clear selection
       setModificationInstruction('');
 
     } catch (err: any) {
-      addLog(`重写失败: ${err.message}`, 'error');
+      if (isCancelledError(err)) {
+        // Undo the partially streamed text of the selected sections
+        setThesisStructure(structureBefore);
+        addLog("重写已停止，选中部分保持原样。", 'info');
+      } else if (err instanceof PartialRunError) {
+        // Review loops of the chapters that finished are kept
+        setThesisStructure(err.partialStructure);
+        addLog(`重写部分失败: ${err.message}`, 'error');
+      } else {
+        addLog(`重写失败: ${err.message}`, 'error');
+      }
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setIsWorking(false);
     }
   };
@@ -407,6 +609,11 @@ function App() {
     setSelectedSectionIds(newSet);
   };
 
+  const currentWave = agents.filter(a => currentStepIds.includes(a.id));
+  const hasStoppedStep = currentWave.some(a => a.status === 'waiting');
+  const failedSteps = currentWave.filter(a => a.status === 'error');
+  const hasFailedStep = failedSteps.length > 0;
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
       <header className="bg-white border-b border-slate-200 py-4 px-6 sticky top-0 z-50">
@@ -421,17 +628,43 @@ function App() {
             </div>
           </div>
           <div className="flex items-center gap-3">
-             {apiConfig.useCustom && (
-                 <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded font-mono border border-green-200">
-                    API: {apiConfig.modelName}
-                 </span>
-             )}
+             <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded font-mono border border-green-200">
+                API: {apiConfig.provider} / {apiConfig.modelName || 'default'}
+             </span>
              
+             <button
+                onClick={handleToggleRecording}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border rounded transition-colors ${
+                  isRecordingTranscript ? 'bg-red-50 text-red-600 border-red-300 hover:bg-red-100' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+                }`}
+                title="录制所有 LLM 请求/响应，用于离线回放"
+             >
+                <Circle className={`w-3 h-3 ${isRecordingTranscript ? 'fill-red-500 animate-pulse' : ''}`} /> {isRecordingTranscript ? '停止录制' : '录制'}
+             </button>
+
+             <button onClick={() => setIsTemplateLibraryOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded hover:bg-slate-50 transition-colors">
+                <LayoutTemplate className="w-3 h-3" /> 模板
+             </button>
+
+             <button onClick={() => setIsCacheBrowserOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded hover:bg-slate-50 transition-colors">
+                <Database className="w-3 h-3" /> 缓存
+             </button>
+
              {/* Load Session Button */}
              <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".json" />
              <button onClick={handleLoadSessionClick} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded hover:bg-slate-50 transition-colors">
                 <Upload className="w-3 h-3" /> 读取存档
              </button>
+
+             {autosaveInfo && !isWorking && (
+               <button
+                  onClick={handleRestoreAutosave}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded hover:bg-slate-50 transition-colors"
+                  title={`${autosaveInfo.topic} · ${new Date(autosaveInfo.timestamp).toLocaleString('zh-CN', { hour12: false })}`}
+               >
+                  <History className="w-3 h-3" /> 恢复自动存档
+               </button>
+             )}
           </div>
         </div>
       </header>
@@ -442,6 +675,9 @@ function App() {
           agents={agents} 
           onAddAgent={handleAddAgent} 
           onRemoveAgent={handleRemoveAgent}
+          onUpdateAgent={handleUpdateAgent}
+          usageByAgent={groupUsage(usageRecords, priceTable, r => r.agentId)}
+          promptRecords={promptRecords}
           isLocked={isWorking || isPaused} 
         />
 
@@ -453,9 +689,49 @@ function App() {
               onChange={handleInputChange} 
               onSubmit={startWorkflow}
               onOpenSettings={() => setIsSettingsOpen(true)}
-              isGenerating={isWorking || (isPaused && currentAgentIndex !== -1)}
+              isGenerating={isWorking || (isPaused && currentStepIds.length > 0)}
               apiConfig={apiConfig}
             />
+
+            {/* Workflow Template & Run Mode */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-3">
+              <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Workflow Template</span>
+              <select
+                value={[...BUILT_IN_TEMPLATES, ...userTemplates].some(t => t.id === activeTemplateId) ? activeTemplateId : ''}
+                onChange={(e) => {
+                  const template = [...BUILT_IN_TEMPLATES, ...userTemplates].find(t => t.id === e.target.value);
+                  if (template) handleApplyTemplate(template);
+                }}
+                disabled={isWorking || isPaused}
+                className="w-full mb-3 p-1.5 text-xs border border-slate-200 rounded-lg bg-white outline-none disabled:opacity-50"
+              >
+                <option value="" disabled>(自定义)</option>
+                <optgroup label="内置模板">
+                  {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </optgroup>
+                {userTemplates.length > 0 && (
+                  <optgroup label="我的模板">
+                    {userTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Run Mode</span>
+              <div className="grid grid-cols-3 gap-1">
+                {RUN_MODES.map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setRunMode(mode.id)}
+                    title={mode.hint}
+                    className={`py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                      runMode === mode.id ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-2 leading-snug">{RUN_MODES.find(m => m.id === runMode)?.hint}</p>
+            </div>
             
             {/* Real-time Logger */}
             <div className="bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-lg flex flex-col h-[300px]">
@@ -463,7 +739,14 @@ function App() {
                 <span className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
                   <Terminal className="w-3 h-3" /> System Logs
                 </span>
-                {isWorking && <span className="flex h-2 w-2 rounded-full bg-green-500 animate-pulse"></span>}
+                <span className="flex items-center gap-2">
+                  {streamedTokens > 0 && (
+                    <span className="text-[10px] font-mono text-slate-500" title="流式输出的估算 Token 数">
+                      ~{streamedTokens.toLocaleString()} tokens
+                    </span>
+                  )}
+                  {isWorking && <span className="flex h-2 w-2 rounded-full bg-green-500 animate-pulse"></span>}
+                </span>
               </div>
               <div className="flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-xs space-y-2">
                 {logs.length === 0 && (
@@ -486,28 +769,123 @@ function App() {
               </div>
             </div>
 
+            <UsagePanel
+              records={usageRecords}
+              agents={agents}
+              priceTable={priceTable}
+              onPriceTableChange={setPriceTable}
+            />
+
+            {/* Stop Control */}
+            {isWorking && (
+              <button
+                onClick={handleStop}
+                className="w-full py-2 bg-white border border-red-300 text-red-600 rounded-xl hover:bg-red-50 transition-colors text-sm font-semibold flex items-center justify-center gap-2 shadow-sm"
+                title="中止正在进行的请求，已完成的章节会保留"
+              >
+                <Square className="w-3 h-3 fill-red-500" /> 停止运行
+              </button>
+            )}
+
             {/* Checkpoint Controls */}
             {isPaused && (
               <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl shadow-sm animate-in zoom-in duration-300">
                 <h4 className="text-sm font-bold text-amber-800 mb-2 flex items-center gap-2">
                   <CheckCircle2 className="w-4 h-4" /> 
-                  Checkpoint: {agents[currentAgentIndex]?.name}
+                  Checkpoint: {currentWave.map(a => a.name).join(' + ')}
                 </h4>
                 <p className="text-xs text-amber-700 mb-2 leading-relaxed">
-                  当前模块已完成。您可以：
+                  {hasStoppedStep ? '当前模块已被停止。' : hasFailedStep ? '部分模块执行失败。' : '当前模块已完成。'}您可以：
                   1. 勾选右侧章节进行<b>重写</b>或<b>删除</b>。
                   2. <b>保存进度</b>以便稍后继续。
                   3. 点击<b>继续</b>进入下一阶段。
                 </p>
                 
+                {failedSteps.map(agent => (
+                  <div key={agent.id} className="mb-3 p-2 bg-white border border-red-200 rounded-lg">
+                    <div className="text-xs font-bold text-red-700">✖ {agent.name}</div>
+                    {failedChapters[agent.id]?.length > 0 && (
+                      <div className="text-[11px] text-red-600 mt-1 leading-snug">
+                        失败章节: {failedChapters[agent.id].join('、')}
+                      </div>
+                    )}
+                    {promptEditStepId === agent.id ? (
+                      <div className="mt-2">
+                        <textarea
+                          value={promptDraft}
+                          onChange={(e) => setPromptDraft(e.target.value)}
+                          className="w-full p-2 text-[11px] font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none min-h-[140px]"
+                        />
+                        <div className="flex gap-2 mt-1">
+                          <button onClick={() => setPromptEditStepId(null)} className="flex-1 py-1 text-xs text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50">
+                            取消
+                          </button>
+                          <button
+                            onClick={handleRetryWithPrompt}
+                            disabled={isWorking || !promptDraft.trim()}
+                            className="flex-1 py-1 text-xs font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            保存并重试
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-1 mt-2">
+                        <button
+                          onClick={() => handleRetryFailedStep(agent.id)}
+                          disabled={isWorking}
+                          className="flex-1 py-1 text-[11px] font-semibold text-indigo-700 bg-white border border-indigo-300 rounded-lg hover:bg-indigo-50 flex items-center justify-center gap-1 disabled:opacity-50"
+                          title="保留已完成的章节，仅重新生成失败的部分"
+                        >
+                          <RotateCcw className="w-3 h-3" /> 重试
+                        </button>
+                        <button
+                          onClick={() => openPromptEditor(agent)}
+                          disabled={isWorking}
+                          className="flex-1 py-1 text-[11px] font-semibold text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          改提示词
+                        </button>
+                        <button
+                          onClick={() => handleSkipFailedStep(agent.id)}
+                          disabled={isWorking}
+                          className="flex-1 py-1 text-[11px] font-semibold text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                          title="将此步骤标记为跳过，后续步骤照常执行"
+                        >
+                          跳过
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
                 {selectedSectionIds.size > 0 && (
                   <div className="mb-3 animate-in fade-in slide-in-from-top-2">
+                    {currentWave.length > 1 && (
+                      <select
+                        value={regenAgentId}
+                        onChange={(e) => setRegenAgentId(e.target.value)}
+                        className="w-full mb-2 p-1.5 text-xs border border-amber-300 rounded-lg bg-white outline-none"
+                        title="由哪个步骤重写选中部分"
+                      >
+                        {currentWave.map(a => <option key={a.id} value={a.id}>重写使用: {a.name}</option>)}
+                      </select>
+                    )}
                     <textarea 
                       value={modificationInstruction}
                       onChange={(e) => setModificationInstruction(e.target.value)}
                       placeholder="在此输入修改指令... (例如: '将这一节的重点改为Transformer架构')"
                       className="w-full p-2 text-xs border border-amber-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white min-h-[60px]"
                     />
+                    <label className="flex items-center gap-2 mt-1 text-[11px] text-amber-800 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={forceFreshRegen}
+                        onChange={(e) => setForceFreshRegen(e.target.checked)}
+                        className="w-3 h-3 rounded"
+                      />
+                      强制重新生成 (不使用缓存结果)
+                    </label>
                   </div>
                 )}
 
@@ -538,6 +916,16 @@ function App() {
                     <Save className="w-3 h-3" /> 保存当前进度 (JSON)
                   </button>
 
+                  {hasStoppedStep && (
+                    <button
+                      onClick={handleResumeStep}
+                      disabled={isWorking}
+                      className="w-full py-2 bg-white border border-indigo-300 text-indigo-700 rounded-lg hover:bg-indigo-50 transition-colors text-sm font-semibold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Play className="w-3 h-3" /> 继续本步骤 (跳过已完成章节)
+                    </button>
+                  )}
+
                   <button 
                     onClick={handleContinue}
                     className="w-full py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-semibold flex items-center justify-center gap-2 shadow-sm"
@@ -562,11 +950,27 @@ function App() {
               topic={input.topic}
               apiConfig={apiConfig}
               onSaveSession={handleSaveSession} // Pass save handler
+              promptRecords={promptRecords}
             />
           </div>
         </div>
       </main>
 
+      {isTemplateLibraryOpen && (
+        <TemplateLibrary
+          agents={agents}
+          activeTemplateId={activeTemplateId}
+          canApply={!isWorking && !isPaused}
+          onApply={(template) => { handleApplyTemplate(template); setIsTemplateLibraryOpen(false); }}
+          onLibraryChange={() => setUserTemplates(loadUserTemplates())}
+          onClose={() => setIsTemplateLibraryOpen(false)}
+        />
+      )}
+
+      {isCacheBrowserOpen && (
+        <CacheBrowser onClose={() => setIsCacheBrowserOpen(false)} />
+      )}
+
       {isSettingsOpen && (
         <SettingsModal 
           config={apiConfig}
@@ -0,0 +1,129 @@
+
+import React, { useEffect, useState } from 'react';
+import { Database, X, Trash2, Loader2 } from 'lucide-react';
+import {
+  CacheEntry, CacheSettings, listCacheEntries, deleteCacheEntry, clearCache,
+  loadCacheSettings, saveCacheSettings, enforceCacheLimit
+} from '../services/llmCache';
+
+interface CacheBrowserProps {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const CacheBrowser: React.FC<CacheBrowserProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [settings, setSettings] = useState<CacheSettings>(loadCacheSettings());
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+    } catch (e) {
+      console.error("Failed to read cache", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+
+  const handleSettingsChange = async (next: CacheSettings) => {
+    setSettings(next);
+    saveCacheSettings(next);
+    if (next.maxBytes < totalSize) {
+      await enforceCacheLimit(next.maxBytes);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("确定要清空全部缓存吗？")) return;
+    await clearCache();
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Database className="w-5 h-5 text-indigo-600" />
+            响应缓存 (Response Cache)
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded-full text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 flex flex-wrap items-center gap-4 text-xs text-slate-600">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => handleSettingsChange({ ...settings, enabled: e.target.checked })}
+              className="w-4 h-4 text-indigo-600 rounded"
+            />
+            启用缓存
+          </label>
+          <label className="flex items-center gap-2">
+            容量上限 (MB)
+            <input
+              type="number"
+              min={1}
+              value={Math.round(settings.maxBytes / 1024 / 1024)}
+              onChange={(e) => handleSettingsChange({ ...settings, maxBytes: Math.max(1, Number(e.target.value) || 1) * 1024 * 1024 })}
+              className="w-20 p-1 border border-slate-300 rounded font-mono"
+            />
+          </label>
+          <span className="font-mono text-slate-400">{entries.length} 条 · {formatBytes(totalSize)}</span>
+          <button onClick={handleClear} disabled={entries.length === 0} className="ml-auto px-3 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50 disabled:opacity-40">
+            清空缓存
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-10 text-slate-400"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-slate-400 text-sm py-10">缓存为空。</p>
+          ) : entries.map(entry => (
+            <div key={entry.key} className="border border-slate-200 rounded-lg p-3 text-xs">
+              <div className="flex items-start gap-3">
+                <button onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)} className="flex-1 text-left min-w-0">
+                  <div className="flex items-center gap-2 font-mono text-slate-500 mb-1">
+                    <span className="bg-slate-100 px-1.5 rounded">{entry.provider}</span>
+                    <span className="truncate">{entry.model}</span>
+                    <span className="ml-auto shrink-0">{formatBytes(entry.size)} · {new Date(entry.lastAccess).toLocaleString('zh-CN', { hour12: false })}</span>
+                  </div>
+                  <div className="text-slate-700 line-clamp-2">{entry.preview || '(无预览)'}</div>
+                </button>
+                <button onClick={() => handleDelete(entry.key)} className="text-slate-300 hover:text-red-500 p-1" title="删除此条">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {expandedKey === entry.key && (
+                <pre className="mt-2 p-2 bg-slate-900 text-slate-300 rounded max-h-60 overflow-auto whitespace-pre-wrap font-mono text-[11px]">
+                  {entry.text}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheBrowser;
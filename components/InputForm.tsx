@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { UserInput, ApiConfig } from '../types';
+import { UserInput, ApiConfig, ChatMessage } from '../types';
 import { Wand2, Loader2, Settings2, Sparkles, ArrowDown, ClipboardCopy, Send, RotateCcw, Bot, User } from 'lucide-react';
 import { runRefinementChat } from '../services/geminiService';
 import ReactMarkdown from 'react-markdown';
@@ -15,11 +15,6 @@ interface InputFormProps {
   apiConfig?: ApiConfig;
 }
 
-interface ChatMessage {
-    role: 'user' | 'model';
-    content: string;
-}
-
 const InputForm: React.FC<InputFormProps & { apiConfig?: ApiConfig }> = ({ 
   input, 
   onChange, 
@@ -43,7 +38,7 @@ const InputForm: React.FC<InputFormProps & { apiConfig?: ApiConfig }> = ({
       if (isRefineModalOpen && messages.length === 0) {
           // Initial greeting
           setMessages([{
-              role: 'model',
+              role: 'assistant',
               content: "您好，我是您的学术论文代笔顾问（Ghostwriter）。\n\n为了帮您撰写一篇达到 Top Conference/Journal 水准的硕士论文，我需要先了解您的**研究领域**和初步的**选题想法**。\n\n您想研究哪个方向？（例如：医学图像分割、大语言模型微调、自动驾驶感知等）"
           }]);
       }
@@ -66,7 +61,7 @@ const InputForm: React.FC<InputFormProps & { apiConfig?: ApiConfig }> = ({
         const result = await runRefinementChat(history, apiConfig);
         
         // Add model response
-        setMessages(prev => [...prev, { role: 'model', content: result.text }]);
+        setMessages(prev => [...prev, { role: 'assistant', content: result.text }]);
         
         // Check if finished
         if (result.finished && result.data) {
@@ -74,7 +69,7 @@ const InputForm: React.FC<InputFormProps & { apiConfig?: ApiConfig }> = ({
         }
 
     } catch (e) {
-        setMessages(prev => [...prev, { role: 'model', content: "❌ 连接中断，请检查 API 配置或重试。" }]);
+        setMessages(prev => [...prev, { role: 'assistant', content: "❌ 连接中断，请检查 API 配置或重试。" }]);
     } finally {
         setIsRefining(false);
     }
@@ -224,7 +219,7 @@ const InputForm: React.FC<InputFormProps & { apiConfig?: ApiConfig }> = ({
                           <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
                               {messages.map((msg, idx) => (
                                   <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                      {msg.role === 'model' && (
+                                      {msg.role === 'assistant' && (
                                           <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center shrink-0">
                                               <Bot className="w-5 h-5 text-indigo-600" />
                                           </div>
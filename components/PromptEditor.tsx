@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { Terminal, History, GitCompare, RotateCcw, Save } from 'lucide-react';
+import { Agent, PromptSlot, PromptVersion, StepPromptRecord } from '../types';
+import { PROMPT_SLOT_LABELS } from '../services/builtInPrompts';
+import { commitPromptVersion, getDefaultPrompt, getPromptSlots, getPromptText, getSlotVersions, getVersionLabel } from '../services/promptVersions';
+import { PROMPT_PARTIALS, USER_TEMPLATE_VARIABLES, getUserTemplateKind, renderUserPrompt } from '../services/userPromptTemplates';
+import { diffLines } from '../utils/lineDiff';
+import { TemplateError, listTemplateVariables } from '../utils/promptTemplate';
+
+interface PromptEditorProps {
+  agent: Agent;
+  // Runs of this agent, to show which versions produced output
+  records: StepPromptRecord[];
+  disabled: boolean;
+  onCommit: (patch: Partial<Agent>) => void;
+}
+
+type View = 'edit' | 'diff' | 'history';
+
+const PromptEditor: React.FC<PromptEditorProps> = ({ agent, records, disabled, onCommit }) => {
+  const slots = getPromptSlots(agent);
+  const [slot, setSlot] = useState<PromptSlot>('system');
+  const [view, setView] = useState<View>('edit');
+  const [draft, setDraft] = useState(getPromptText(agent, 'system'));
+  const [note, setNote] = useState('');
+  // Version the diff view compares against; unset = the built-in default
+  const [compareVersion, setCompareVersion] = useState<PromptVersion | null>(null);
+
+  const current = getPromptText(agent, slot);
+  const builtIn = getDefaultPrompt(agent, slot);
+  const versions = getSlotVersions(agent, slot);
+  const isDirty = draft !== current;
+
+  // User-prompt templates are parsed before they can be saved, so a typo cannot break a run
+  let templateError: string | null = null;
+  // Names the pass does not provide render as empty, which is usually a typo
+  let unknownVariables: string[] = [];
+  const templateKind = slot === 'user' ? getUserTemplateKind(agent.kind) : slot === 'regenerate' ? 'regenerate' : null;
+  if (templateKind) {
+    try {
+      renderUserPrompt(draft, {});
+      const known = USER_TEMPLATE_VARIABLES[templateKind];
+      unknownVariables = listTemplateVariables(draft, PROMPT_PARTIALS).filter(name => !known.includes(name));
+    } catch (e) {
+      if (!(e instanceof TemplateError)) throw e;
+      templateError = e.message;
+    }
+  }
+
+  useEffect(() => {
+    setDraft(getPromptText(agent, slot));
+    setCompareVersion(null);
+  }, [slot, agent.id]);
+
+  const commit = (text: string, versionNote?: string) => {
+    onCommit(commitPromptVersion(agent, slot, text, versionNote));
+    setDraft(text);
+    setNote('');
+    setView('edit');
+  };
+
+  const runsOf = (version: PromptVersion) => records.filter(r => r.versionIds[version.slot] === version.id).length;
+
+  const renderDiff = (before: string, after: string) => (
+    <pre className="p-4 max-h-[300px] overflow-auto custom-scrollbar text-xs font-mono whitespace-pre-wrap leading-relaxed">
+      {diffLines(before, after).map((line, i) => (
+        <div
+          key={i}
+          className={line.type === 'added' ? 'bg-emerald-500/15 text-emerald-300' : line.type === 'removed' ? 'bg-red-500/15 text-red-300 line-through' : 'text-slate-400'}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+        </div>
+      ))}
+    </pre>
+  );
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-1 rounded text-[10px] font-bold flex items-center gap-1 ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`;
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-2 flex items-center gap-2">
+        <Terminal className="w-4 h-4" /> 提示词 (Prompts)
+        {versions.length > 0 && <span className="text-slate-400 normal-case font-medium">当前 {getVersionLabel(agent, versions[versions.length - 1])}</span>}
+      </h4>
+      {slots.length > 1 && (
+        <div className="flex gap-2 mb-2">
+          {slots.map(s => (
+            <button
+              key={s}
+              onClick={() => setSlot(s)}
+              className={`px-3 py-1 text-xs rounded-lg border ${slot === s ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+            >
+              {PROMPT_SLOT_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-inner">
+        <div className="flex items-center justify-between px-4 py-2 bg-slate-950 border-b border-slate-800">
+          <div className="flex gap-1">
+            <button onClick={() => setView('edit')} className={tabClass(view === 'edit')}>
+              <Terminal className="w-3 h-3" /> 编辑
+            </button>
+            <button onClick={() => { setCompareVersion(null); setView('diff'); }} disabled={!builtIn} className={`${tabClass(view === 'diff')} disabled:opacity-30`} title={builtIn ? '与内置默认提示词对比' : '自定义模块没有内置默认提示词'}>
+              <GitCompare className="w-3 h-3" /> 对比
+            </button>
+            <button onClick={() => setView('history')} className={tabClass(view === 'history')}>
+              <History className="w-3 h-3" /> 历史 ({versions.length})
+            </button>
+          </div>
+          <span className="text-[10px] text-slate-500 font-mono opacity-60">{isDirty ? 'instruction.md (未保存)' : 'instruction.md'}</span>
+        </div>
+
+        {view === 'edit' && (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={disabled}
+            spellCheck={false}
+            className="w-full h-[300px] p-4 bg-transparent text-xs font-mono text-slate-300 leading-relaxed outline-none resize-none custom-scrollbar disabled:opacity-60"
+          />
+        )}
+
+        {view === 'diff' && (
+          <>
+            <div className="px-4 pt-3 text-[10px] text-slate-500">
+              {compareVersion ? `${getVersionLabel(agent, compareVersion)} → 编辑中` : '内置默认 → 编辑中'}
+            </div>
+            {renderDiff(compareVersion ? compareVersion.text : builtIn || '', draft)}
+          </>
+        )}
+
+        {view === 'history' && (
+          <div className="p-4 max-h-[300px] overflow-auto custom-scrollbar space-y-2">
+            {versions.length === 0 && <p className="text-xs text-slate-500">尚无版本记录。保存修改或运行此步骤时会记录版本。</p>}
+            {[...versions].reverse().map(version => {
+              const runs = runsOf(version);
+              return (
+                <div key={version.id} className="flex items-center gap-3 text-xs text-slate-300 border-b border-slate-800 pb-2">
+                  <span className="font-mono font-bold text-indigo-300 w-8">{getVersionLabel(agent, version)}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{version.note || '(无备注)'}</div>
+                    <div className="text-[10px] text-slate-500">
+                      {new Date(version.savedAt).toLocaleString('zh-CN', { hour12: false })}
+                      {runs > 0 && ` · 用于 ${runs} 次运行`}
+                      {version.text === current && ' · 当前'}
+                    </div>
+                  </div>
+                  <button onClick={() => { setCompareVersion(version); setView('diff'); }} className="text-slate-400 hover:text-white" title="与编辑中的内容对比">
+                    <GitCompare className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => commit(version.text, `恢复自 ${getVersionLabel(agent, version)}`)}
+                    disabled={disabled || version.text === current}
+                    className="text-slate-400 hover:text-white disabled:opacity-30"
+                    title="恢复此版本"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {templateKind && (
+        <p className="text-[11px] text-slate-500 mt-2 leading-relaxed">
+          变量: {USER_TEMPLATE_VARIABLES[templateKind].map(name => <code key={name} className="mr-1 text-indigo-600">{`{{${name}}}`}</code>)}
+          <br />
+          片段: {Object.keys(PROMPT_PARTIALS).map(name => <code key={name} className="mr-1 text-indigo-600">{`{{> ${name}}}`}</code>)}
+          · 条件: <code className="text-indigo-600">{'{{#if name}}…{{else}}…{{/if}}'}</code>
+        </p>
+      )}
+      {templateError && <p className="text-[11px] text-red-600 mt-1">模板错误: {templateError}</p>}
+      {unknownVariables.length > 0 && <p className="text-[11px] text-amber-600 mt-1">未知变量 (将渲染为空): {unknownVariables.join(', ')}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          disabled={disabled || !isDirty}
+          placeholder="版本备注 (可选)"
+          className="flex-1 min-w-[160px] p-1.5 border border-slate-300 rounded text-xs disabled:bg-slate-50"
+        />
+        <button
+          onClick={() => commit(draft, note.trim() || undefined)}
+          disabled={disabled || !isDirty || !!templateError}
+          className="px-3 py-1.5 flex items-center gap-1 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-40"
+        >
+          <Save className="w-3 h-3" /> 保存为新版本
+        </button>
+        {isDirty && (
+          <button onClick={() => setDraft(current)} className="px-3 py-1.5 text-xs text-slate-600 border border-slate-300 rounded hover:bg-slate-50">
+            放弃修改
+          </button>
+        )}
+        {builtIn && (
+          <button
+            onClick={() => commit(builtIn, '恢复内置默认')}
+            disabled={disabled || current === builtIn}
+            className="px-3 py-1.5 flex items-center gap-1 text-xs text-slate-600 border border-slate-300 rounded hover:bg-slate-50 disabled:opacity-40"
+          >
+            <RotateCcw className="w-3 h-3" /> 恢复内置默认
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditor;
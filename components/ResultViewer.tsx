@@ -3,11 +3,16 @@ import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { DocumentHistory, Agent, ThesisStructure, ThesisSection, ThesisStyleConfig, ApiConfig } from '../types';
-import { FileDown, FileType, Terminal, History, Type, CheckSquare, Square, List, Layout, FileCog, Loader2, Sparkles, X, Archive, Save } from 'lucide-react';
+import { DocumentHistory, Agent, ThesisStructure, ThesisSection, ThesisStyleConfig, ApiConfig, PromptSlot, StepPromptRecord } from '../types';
+import { FileDown, FileType, Terminal, History, Type, CheckSquare, Square, List, Layout, FileCog, Loader2, Sparkles, X, Archive, Save, StickyNote, ClipboardCheck, ChevronDown, ChevronRight, BookMarked } from 'lucide-react';
 import { downloadDocx } from '../utils/exporter';
 import { downloadLatexZip } from '../utils/latexExporter';
 import { parseStyleGuide } from '../services/geminiService';
+import { collectExtraFields, renderExtraFieldsMarkdown } from '../services/sectionFields';
+import { REVIEW_CRITERIA, REVIEW_CRITERION_LABELS } from '../services/sectionReviews';
+import { PROMPT_SLOT_LABELS } from '../services/builtInPrompts';
+import { findPromptVersion, getVersionLabel } from '../services/promptVersions';
+import { MEMORY_FACETS, MEMORY_FACET_LABELS } from '../services/thesisMemory';
 
 interface ResultViewerProps {
   structure: ThesisStructure;
@@ -19,6 +24,8 @@ interface ResultViewerProps {
   topic?: string;
   apiConfig?: ApiConfig;
   onSaveSession?: () => void;
+  // Prompt versions of every step run; a snapshot names the versions that produced it
+  promptRecords?: StepPromptRecord[];
 }
 
 const ResultViewer: React.FC<ResultViewerProps> = ({ 
@@ -30,9 +37,14 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
   onToggleId,
   topic,
   apiConfig,
-  onSaveSession
+  onSaveSession,
+  promptRecords = []
 }) => {
   const [viewMode, setViewMode] = useState<'latest' | string>('latest');
+  // Sections whose review history is unfolded
+  const [expandedReviews, setExpandedReviews] = useState<Set<string>>(new Set());
+  // Chapters whose thesis memory is unfolded
+  const [expandedMemories, setExpandedMemories] = useState<Set<string>>(new Set());
   
   // Format Logic
   const [isFormatModalOpen, setIsFormatModalOpen] = useState(false);
@@ -68,6 +80,9 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
     return clean;
   };
 
+  // Named fields written by custom agents; each declares whether it is shown and exported
+  const extraFields = collectExtraFields(agents);
+
   const getExportContentAndName = () => {
      let content = "";
      let baseName = topic && topic.trim() ? topic.trim() : "Thesis_Project";
@@ -89,6 +104,7 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
                  let md = `${"#".repeat(s.level)} ${s.title.replace(/^#+\s*/, '')}\n\n`;
                  if (s.content) md += `${s.content}\n\n`;
                  if (s.visuals) md += `${s.visuals}\n\n`;
+                 md += renderExtraFieldsMarkdown(s, extraFields);
                  return md;
              }).join('');
 
@@ -120,7 +136,7 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
       }
       else if (type === 'latex') {
           if (isLatest) {
-             downloadLatexZip(structure, name);
+             downloadLatexZip(structure, name, extraFields);
           } else {
              alert("LaTeX export is currently only available for the Master Canvas (Live Structure) view.");
           }
@@ -140,6 +156,105 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
       }
   };
 
+  // Prompt versions of the run that produced a step's snapshot (its latest run)
+  const describeSnapshotPrompts = (agentId: string): string => {
+    const agent = agents.find(a => a.id === agentId);
+    const record = [...promptRecords].reverse().find(r => r.agentId === agentId);
+    if (!agent || !record) return '';
+    return Object.entries(record.versionIds)
+      .map(([slot, id]) => {
+        const version = findPromptVersion(agent, id!);
+        return `${PROMPT_SLOT_LABELS[slot as PromptSlot]} ${version ? getVersionLabel(agent, version) : id}`;
+      })
+      .join('，');
+  };
+
+  const toggleReviews = (id: string) => {
+    setExpandedReviews(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleMemory = (id: string) => {
+    setExpandedMemories(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  // What later chapters are told about this one (thesis memory)
+  const renderMemory = (section: ThesisSection) => {
+    const memory = section.memory!;
+    const isExpanded = expandedMemories.has(section.id);
+    return (
+      <div className="-mt-2 mb-4 text-xs">
+        <button
+          onClick={() => toggleMemory(section.id)}
+          className="flex items-center gap-2 px-2 py-1 rounded border font-bold bg-slate-50 border-slate-200 text-slate-500 hover:text-indigo-600"
+          title="撰写其他章节时提供给模型的本章要点"
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <BookMarked className="w-3 h-3" />
+          章节记忆
+        </button>
+        {isExpanded && (
+          <dl className="mt-2 space-y-1 border-l-2 border-slate-200 pl-3 text-slate-600">
+            {MEMORY_FACETS.filter(facet => memory[facet].length > 0).map(facet => (
+              <div key={facet} className="flex gap-2">
+                <dt className="font-bold text-slate-700 flex-shrink-0">{MEMORY_FACET_LABELS[facet]}</dt>
+                <dd>{memory[facet].join('；')}</dd>
+              </div>
+            ))}
+            <div className="text-slate-400">更新于 {new Date(memory.updatedAt).toLocaleString('zh-CN', { hour12: false })}</div>
+          </dl>
+        )}
+      </div>
+    );
+  };
+
+  // Score of the latest round, unfolding to every round of the review → revise loop
+  const renderReviews = (section: ThesisSection) => {
+    const reviews = section.reviews!;
+    const latest = reviews[reviews.length - 1];
+    const isExpanded = expandedReviews.has(section.id);
+    return (
+      <div className="my-4 text-xs">
+        <button
+          onClick={() => toggleReviews(section.id)}
+          className={`flex items-center gap-2 px-2 py-1 rounded border font-bold ${latest.passed ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <ClipboardCheck className="w-3 h-3" />
+          评审 {latest.overall}/10 · {latest.passed ? '通过' : '未达标'}{reviews.length > 1 && ` · ${reviews.length} 轮`}
+        </button>
+        {isExpanded && (
+          <ol className="mt-2 space-y-2 border-l-2 border-slate-200 pl-3">
+            {reviews.map(review => (
+              <li key={review.round} className="text-slate-600">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="font-bold text-slate-700">第 {review.round} 轮 · {review.overall} 分</span>
+                  {REVIEW_CRITERIA.map(c => (
+                    <span key={c} className="bg-slate-100 text-slate-500 px-1.5 rounded">{REVIEW_CRITERION_LABELS[c]} {review.scores[c]}</span>
+                  ))}
+                  {review.revised && <span className="text-amber-600">→ 已退回修订</span>}
+                  <span className="text-slate-400">{review.reviewer}</span>
+                </div>
+                {review.comments.length > 0 && (
+                  <ul className="list-disc pl-4 space-y-0.5">
+                    {review.comments.map((comment, i) => <li key={i}>{comment}</li>)}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    );
+  };
+
   const renderSection = (section: ThesisSection) => {
     const isSelected = selectedIds?.has(section.id);
     const canSelect = isLatest && isCheckMode;
@@ -165,6 +280,7 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
                     <h1 className="text-2xl text-slate-900 font-bold tracking-tight">{section.title.replace(/^#+\s*/, '')}</h1>
                 </div>
              )}
+             {section.level === 1 && section.memory && renderMemory(section)}
              {section.level === 2 && <h2 className="text-xl mt-6 mb-3 text-slate-800 font-bold flex items-center gap-2"><span className="text-indigo-400">#</span> {section.title.replace(/^#+\s*/, '')}</h2>}
              {section.level === 3 && <h3 className="text-lg mt-4 mb-2 text-slate-700 font-semibold flex items-center gap-2"><span className="w-1 h-1 rounded-full bg-slate-400"></span> {section.title.replace(/^#+\s*/, '')}</h3>}
              
@@ -192,6 +308,24 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
                     </ReactMarkdown>
                 </div>
              )}
+
+             {extraFields.filter(spec => spec.display && section.extraFields?.[spec.key]?.trim()).map(spec => (
+                <div key={spec.key} className="bg-amber-50/60 border border-amber-200 rounded-lg p-4 my-4 text-xs text-slate-600 overflow-x-auto">
+                    <div className="flex items-center gap-2 mb-2 text-amber-600 uppercase font-bold text-[10px] tracking-wider">
+                        <StickyNote className="w-3 h-3" /> {spec.label}
+                    </div>
+                    <div className="prose prose-sm prose-slate max-w-none">
+                        <ReactMarkdown
+                            remarkPlugins={[remarkMath]}
+                            rehypePlugins={[rehypeKatex]}
+                        >
+                            {preprocessMarkdown(section.extraFields![spec.key])}
+                        </ReactMarkdown>
+                    </div>
+                </div>
+             ))}
+
+             {section.reviews && section.reviews.length > 0 && renderReviews(section)}
           </div>
         </div>
       </div>
@@ -305,6 +439,7 @@ const ResultViewer: React.FC<ResultViewerProps> = ({
                      <div className="mb-6 p-3 bg-amber-50 border border-amber-100 text-amber-800 text-xs rounded-lg flex items-center gap-2">
                         <History className="w-4 h-4" />
                         Viewing snapshot version: <strong>{agents.find(a => a.id === viewMode)?.name || viewMode}</strong>
+                        {describeSnapshotPrompts(viewMode) && <span className="text-amber-600">· {describeSnapshotPrompts(viewMode)}</span>}
                      </div>
                      <ReactMarkdown 
                         remarkPlugins={[remarkMath]} 
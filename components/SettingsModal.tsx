@@ -1,7 +1,14 @@
 
 import React, { useState } from 'react';
-import { ApiConfig } from '../types';
-import { X, Save, Server, Key, Box } from 'lucide-react';
+import { ApiConfig, ApiProfile, LLMProviderId } from '../types';
+import { X, Save, Server, FileJson, Plus, Trash2, Activity, List, Loader2, ArrowUp } from 'lucide-react';
+import { listProviders, getProvider } from '../services/providers';
+import { DEFAULT_RETRY_POLICY } from '../services/retry';
+import { DEFAULT_CHAPTER_CONCURRENCY } from '../services/concurrency';
+import { DEFAULT_MEMORY_TOKEN_BUDGET } from '../services/thesisMemory';
+import { parseTranscript, loadReplayTranscript, getReplayStatus } from '../services/transcript';
+import { loadProfileStore, saveProfileStore, createProfile, toProfileConfig } from '../services/apiProfiles';
+import { testConnection, fetchModelList, ConnectionTestResult } from '../services/connectionTest';
 
 interface SettingsModalProps {
   config: ApiConfig;
@@ -11,12 +18,147 @@ interface SettingsModalProps {
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ config, onSave, onClose }) => {
   const [formData, setFormData] = useState<ApiConfig>(config);
+  const providers = listProviders();
+  const activeProvider = getProvider(formData.provider);
+  const [replayStatus, setReplayStatus] = useState(getReplayStatus());
+  const [replayError, setReplayError] = useState('');
+
+  // Profiles: the form edits the selected profile; saving stores it and makes it active
+  const [profiles, setProfiles] = useState<ApiProfile[]>(() => loadProfileStore().profiles);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(() => loadProfileStore().activeId);
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId) || profiles[0];
+  const [profileName, setProfileName] = useState(selectedProfile.name);
+
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [models, setModels] = useState<string[]>([]);
+  const [modelListError, setModelListError] = useState('');
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+
+  const resetDiagnostics = () => {
+    setTestResult(null);
+    setModels([]);
+    setModelListError('');
+  };
+
+  const handleSelectProfile = (id: string, list: ApiProfile[] = profiles) => {
+    const profile = list.find(p => p.id === id);
+    if (!profile) return;
+    setSelectedProfileId(id);
+    setProfileName(profile.name);
+    setFormData(toProfileConfig(profile));
+    resetDiagnostics();
+  };
+
+  const handleNewProfile = () => {
+    const name = window.prompt("新配置名称", `配置 ${profiles.length + 1}`);
+    if (!name) return;
+    const profile = createProfile(name, { ...formData, profileId: undefined });
+    setProfiles(prev => [...prev, profile]);
+    setSelectedProfileId(profile.id);
+    setProfileName(profile.name);
+  };
+
+  const handleDeleteProfile = () => {
+    if (profiles.length <= 1) return;
+    if (!window.confirm(`确定删除配置 "${selectedProfile.name}" 吗？`)) return;
+    const remaining = profiles.filter(p => p.id !== selectedProfile.id);
+    setProfiles(remaining);
+    saveProfileStore({ profiles: remaining, activeId: remaining[0].id });
+    handleSelectProfile(remaining[0].id, remaining);
+  };
+
+  // Fallback chain: other profiles, tried in order when this one fails
+  const fallbackIds = (formData.fallbackProfileIds || []).filter(id => id !== selectedProfile.id && profiles.some(p => p.id === id));
+
+  const toggleFallback = (id: string) => {
+    setFormData(prev => {
+      const current = prev.fallbackProfileIds || [];
+      return {
+        ...prev,
+        fallbackProfileIds: current.includes(id) ? current.filter(x => x !== id) : [...current, id]
+      };
+    });
+  };
+
+  const moveFallbackUp = (id: string) => {
+    const index = fallbackIds.indexOf(id);
+    if (index <= 0) return;
+    const next = [...fallbackIds];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setFormData(prev => ({ ...prev, fallbackProfileIds: next }));
+  };
+
+  const handleSave = () => {
+    const config: ApiConfig = { ...formData, profileId: selectedProfile.id, fallbackProfileIds: fallbackIds };
+    const updated = profiles.map(p => p.id === selectedProfile.id ? { ...p, name: profileName.trim() || p.name, config } : p);
+    saveProfileStore({ profiles: updated, activeId: selectedProfile.id });
+    onSave(config);
+    onClose();
+  };
+
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const result = await testConnection(formData);
+      setTestResult(result);
+      if (result.models) setModels(result.models);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleFetchModels = async () => {
+    setIsLoadingModels(true);
+    setModelListError('');
+    try {
+      const list = await fetchModelList(formData);
+      if (!list) setModelListError("该服务商不支持获取模型列表。");
+      else if (list.length === 0) setModelListError("接口未返回任何模型。");
+      setModels(list || []);
+    } catch (e: any) {
+      setModelListError(`获取失败: ${e.message}`);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleTranscriptFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        loadReplayTranscript(parseTranscript(event.target?.result as string));
+        setReplayStatus(getReplayStatus());
+        setReplayError('');
+      } catch (err: any) {
+        setReplayError(err.message || "文件解析失败。");
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target;
+    const { name, value, type } = e.target;
+    if (name === 'baseUrl' || name === 'apiKey') resetDiagnostics();
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'number' ? (value === '' ? undefined : Number(value)) : value
+    }));
+  };
+
+  const handleProviderChange = (provider: LLMProviderId) => {
+    // Endpoint and model are provider-specific, so reset them to the new provider's defaults
+    const next = getProvider(provider);
+    resetDiagnostics();
     setFormData(prev => ({
       ...prev,
-      [name]: type === 'checkbox' ? checked : value
+      provider,
+      baseUrl: next.defaultBaseUrl,
+      modelName: next.defaultModel
     }));
   };
 
@@ -33,61 +175,237 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ config, onSave, onClose }
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
-          <div className="flex items-center gap-3 p-4 bg-indigo-50 border border-indigo-100 rounded-lg">
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Profile</label>
+            <div className="flex gap-2">
+              <select
+                value={selectedProfile.id}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                className="flex-1 p-2 border border-slate-300 rounded-lg text-sm bg-white"
+              >
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <button onClick={handleNewProfile} className="px-3 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50" title="以当前设置新建配置">
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDeleteProfile}
+                disabled={profiles.length <= 1}
+                className="px-3 border border-red-200 rounded-lg text-red-500 hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="删除此配置"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
             <input
-              type="checkbox"
-              id="useCustom"
-              name="useCustom"
-              checked={formData.useCustom}
-              onChange={handleChange}
-              className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="配置名称"
+              className="w-full mt-2 p-2 border border-slate-300 rounded-lg text-sm"
             />
-            <label htmlFor="useCustom" className="text-sm font-medium text-indigo-900 cursor-pointer">
-              Use Custom OpenAI-Compatible API
-            </label>
           </div>
 
-          <div className={`space-y-4 ${formData.useCustom ? 'opacity-100' : 'opacity-40 pointer-events-none'}`}>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Provider</label>
+            <div className="grid grid-cols-2 gap-2">
+              {providers.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => handleProviderChange(p.id)}
+                  className={`p-3 rounded-lg border text-left text-sm font-medium transition-colors ${
+                    formData.provider === p.id
+                      ? 'bg-indigo-50 border-indigo-300 text-indigo-900 ring-2 ring-indigo-100'
+                      : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {formData.provider === 'replay' && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-800 space-y-2">
+              <p>回放模式：所有请求由已录制的对话记录 (Transcript) 离线应答，不访问网络。</p>
+              <label className="inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-amber-200 rounded cursor-pointer hover:bg-amber-100 font-medium">
+                <FileJson className="w-3 h-3" /> 载入对话记录
+                <input type="file" accept=".json" onChange={handleTranscriptFile} className="hidden" />
+              </label>
+              <p className="font-mono">
+                {replayStatus.loaded ? `已载入 ${replayStatus.total} 条记录 (剩余 ${replayStatus.remaining})` : '尚未载入对话记录'}
+              </p>
+              {replayError && <p className="text-red-600">{replayError}</p>}
+            </div>
+          )}
+
+          <div className={`space-y-4 ${formData.provider === 'replay' ? 'hidden' : ''}`}>
+            {activeProvider.defaultBaseUrl && (
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Base URL</label>
+                <input
+                  type="text"
+                  name="baseUrl"
+                  value={formData.baseUrl}
+                  onChange={handleChange}
+                  placeholder={activeProvider.defaultBaseUrl}
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+            )}
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Base URL</label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">
+                API Key {!activeProvider.requiresApiKey && <span className="normal-case font-normal">(optional)</span>}
+              </label>
               <input
-                type="text"
-                name="baseUrl"
-                value={formData.baseUrl}
+                type="password"
+                name="apiKey"
+                value={formData.apiKey}
                 onChange={handleChange}
-                placeholder="https://api.openai.com/v1"
+                placeholder={formData.provider === 'gemini' ? 'Leave empty to use the API_KEY env variable' : 'sk-...'}
                 className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">API Key</label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Model Name</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  name="modelName"
+                  list="settings-model-options"
+                  value={formData.modelName}
+                  onChange={handleChange}
+                  placeholder={activeProvider.defaultModel}
+                  className="flex-1 p-2 border border-slate-300 rounded-lg text-sm font-mono"
+                />
+                {activeProvider.listModels && (
+                  <button
+                    onClick={handleFetchModels}
+                    disabled={isLoadingModels}
+                    className="px-3 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 text-xs flex items-center gap-1 disabled:opacity-50"
+                    title="从 /models 获取可用模型"
+                  >
+                    {isLoadingModels ? <Loader2 className="w-3 h-3 animate-spin" /> : <List className="w-3 h-3" />} 模型列表
+                  </button>
+                )}
+              </div>
+              <datalist id="settings-model-options">
+                {models.map(m => <option key={m} value={m} />)}
+              </datalist>
+              {models.length > 0 && <p className="text-[11px] text-slate-400 mt-1">已获取 {models.length} 个模型，可在输入框中选择。</p>}
+              {modelListError && <p className="text-[11px] text-red-500 mt-1">{modelListError}</p>}
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Max Attempts (429 / 5xx Retry)</label>
               <input
-                type="password"
-                name="apiKey"
-                value={formData.apiKey}
+                type="number"
+                name="maxAttempts"
+                min={1}
+                max={10}
+                value={formData.maxAttempts ?? ''}
                 onChange={handleChange}
-                placeholder="sk-..."
+                placeholder={String(DEFAULT_RETRY_POLICY.maxAttempts)}
                 className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
               />
             </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Parallel Chapters</label>
+                <input
+                  type="number"
+                  name="concurrency"
+                  min={1}
+                  max={10}
+                  value={formData.concurrency ?? ''}
+                  onChange={handleChange}
+                  placeholder={String(DEFAULT_CHAPTER_CONCURRENCY)}
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Requests / Minute</label>
+                <input
+                  type="number"
+                  name="requestsPerMinute"
+                  min={0}
+                  value={formData.requestsPerMinute ?? ''}
+                  onChange={handleChange}
+                  placeholder="Unlimited"
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+            </div>
+            <p className="text-[11px] text-slate-400 -mt-2">The request limit is counted per provider and shared by all chapter workers.</p>
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Model Name</label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Memory Budget (Tokens)</label>
               <input
-                type="text"
-                name="modelName"
-                value={formData.modelName}
+                type="number"
+                name="memoryTokenBudget"
+                min={0}
+                step={100}
+                value={formData.memoryTokenBudget ?? ''}
                 onChange={handleChange}
-                placeholder="gpt-4o, deepseek-chat"
+                placeholder={String(DEFAULT_MEMORY_TOKEN_BUDGET)}
                 className="w-full p-2 border border-slate-300 rounded-lg text-sm font-mono"
               />
+              <p className="text-[11px] text-slate-400 mt-1">Summaries of finished chapters added to every chapter prompt; 0 turns the thesis memory off. With concurrency above 1, chapters are written in waves of that size, each reading the summaries of the waves before it.</p>
             </div>
+
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+              <button
+                onClick={handleTestConnection}
+                disabled={isTesting}
+                className="px-3 py-1.5 bg-white border border-slate-300 rounded text-xs font-medium text-slate-700 hover:bg-slate-100 flex items-center gap-1.5 disabled:opacity-50"
+              >
+                {isTesting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Activity className="w-3 h-3" />} Test Connection
+              </button>
+              {testResult && (
+                <div className="text-xs font-mono space-y-0.5">
+                  <p className={testResult.ok ? 'text-green-600' : 'text-red-600'}>
+                    {testResult.ok ? '✔ 连接成功' : `✖ 连接失败: ${testResult.error}`}
+                    {testResult.latencyMs !== undefined && ` (${testResult.latencyMs} ms)`}
+                  </p>
+                  <p className="text-slate-600">
+                    模型可用: {testResult.modelAvailable === undefined ? '未知' : testResult.modelAvailable ? '是' : '否 (不在 /models 列表中)'}
+                  </p>
+                  {testResult.ok && (
+                    <p className="text-slate-600">JSON 模式: {testResult.jsonMode ? '支持 (返回纯 JSON)' : '不可靠 (返回内容不是纯 JSON)'}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {profiles.length > 1 && (
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Fallback Chain</label>
+                <p className="text-[11px] text-slate-400 mb-2">配额用尽、认证失败或多次临时故障时，按顺序切换到以下配置。</p>
+                <div className="space-y-1">
+                  {profiles.filter(p => p.id !== selectedProfile.id).map(p => {
+                    const order = fallbackIds.indexOf(p.id);
+                    return (
+                      <div key={p.id} className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={order !== -1} onChange={() => toggleFallback(p.id)} className="w-4 h-4 rounded" />
+                        <span className="w-5 text-xs font-mono text-indigo-600">{order !== -1 ? `${order + 1}.` : ''}</span>
+                        <span className="flex-1 text-slate-700">{p.name}</span>
+                        <span className="text-[11px] font-mono text-slate-400">{p.config.provider} / {p.config.modelName || 'default'}</span>
+                        {order > 0 && (
+                          <button onClick={() => moveFallbackUp(p.id)} className="text-slate-400 hover:text-indigo-600" title="提前">
+                            <ArrowUp className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="p-4 border-t border-slate-100 flex justify-end gap-3 bg-slate-50 rounded-b-2xl">
           <button onClick={onClose} className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg text-sm">Cancel</button>
-          <button onClick={() => { onSave(formData); onClose(); }} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm">
+          <button onClick={handleSave} className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm">
             <Save className="w-4 h-4" /> Save Config
           </button>
         </div>
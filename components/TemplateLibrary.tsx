@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { LayoutTemplate, X, Trash2, Download, Upload, Save, Check } from 'lucide-react';
+import { Agent, WorkflowTemplate } from '../types';
+import {
+  BUILT_IN_TEMPLATES, loadUserTemplates, saveUserTemplate, deleteUserTemplate,
+  createTemplate, downloadTemplate, parseTemplateFile
+} from '../services/workflowTemplates';
+
+interface TemplateLibraryProps {
+  agents: Agent[];
+  activeTemplateId: string;
+  // Applying replaces the workflow, so it is only offered while no run is in progress
+  canApply: boolean;
+  onApply: (template: WorkflowTemplate) => void;
+  onLibraryChange: () => void;
+  onClose: () => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ agents, activeTemplateId, canApply, onApply, onLibraryChange, onClose }) => {
+  const [userTemplates, setUserTemplates] = useState<WorkflowTemplate[]>(loadUserTemplates());
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    setUserTemplates(loadUserTemplates());
+    onLibraryChange();
+  };
+
+  const handleSaveCurrent = () => {
+    if (!newName.trim()) return;
+    saveUserTemplate(createTemplate(newName.trim(), newDescription.trim(), agents));
+    setNewName('');
+    setNewDescription('');
+    refresh();
+  };
+
+  const handleDelete = (template: WorkflowTemplate) => {
+    if (!window.confirm(`确定要删除模板“${template.name}”吗？`)) return;
+    deleteUserTemplate(template.id);
+    refresh();
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        saveUserTemplate(parseTemplateFile(event.target?.result as string));
+        setError(null);
+        refresh();
+      } catch (err: any) {
+        setError(err instanceof SyntaxError ? "文件解析失败。" : err.message);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const renderTemplate = (template: WorkflowTemplate) => (
+    <div key={template.id} className={`border rounded-lg p-3 text-xs flex items-start gap-3 ${template.id === activeTemplateId ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200'}`}>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-bold text-slate-800 text-sm">{template.name}</span>
+          {template.builtIn && <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded">内置</span>}
+          {template.id === activeTemplateId && <span className="text-[10px] text-indigo-600 flex items-center gap-0.5"><Check className="w-3 h-3" /> 当前</span>}
+        </div>
+        {template.description && <p className="text-slate-500 mb-1">{template.description}</p>}
+        <p className="text-slate-400 truncate">{template.agents.map(a => a.name).join(' → ')}</p>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <button
+          onClick={() => onApply(template)}
+          disabled={!canApply}
+          className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          title={canApply ? '用此模板替换当前工作流' : '运行中无法切换模板'}
+        >
+          应用
+        </button>
+        <button onClick={() => downloadTemplate(template)} className="text-slate-400 hover:text-indigo-600 p-1" title="导出为文件">
+          <Download className="w-4 h-4" />
+        </button>
+        {!template.builtIn && (
+          <button onClick={() => handleDelete(template)} className="text-slate-300 hover:text-red-500 p-1" title="删除模板">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-indigo-600" />
+            工作流模板 (Workflow Templates)
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded-full text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 space-y-2 text-xs">
+          <p className="text-slate-500">模板只包含模块、提示词、类型、依赖与模型覆盖，不含论文内容和 API Key。</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="模板名称"
+              className="w-40 p-1.5 border border-slate-300 rounded"
+            />
+            <input
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              placeholder="说明 (可选)"
+              className="flex-1 min-w-[160px] p-1.5 border border-slate-300 rounded"
+            />
+            <button onClick={handleSaveCurrent} disabled={!newName.trim()} className="px-3 py-1.5 flex items-center gap-1 text-indigo-700 border border-indigo-300 rounded hover:bg-indigo-50 disabled:opacity-40">
+              <Save className="w-3 h-3" /> 保存当前工作流
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json" />
+            <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 flex items-center gap-1 text-slate-600 border border-slate-300 rounded hover:bg-slate-50">
+              <Upload className="w-3 h-3" /> 导入
+            </button>
+          </div>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Built-in</h4>
+          {BUILT_IN_TEMPLATES.map(renderTemplate)}
+          <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider pt-2">My Templates</h4>
+          {userTemplates.length === 0 ? (
+            <p className="text-center text-slate-400 text-sm py-6">还没有自定义模板。</p>
+          ) : userTemplates.map(renderTemplate)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import { Agent, PriceTable, UsageRecord } from '../types';
+import { Coins, ChevronDown, ChevronRight, Plus, X } from 'lucide-react';
+import { summarizeUsage, groupUsage, formatTokens, formatCost } from '../services/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  agents: Agent[];
+  priceTable: PriceTable;
+  onPriceTableChange: (table: PriceTable) => void;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, agents, priceTable, onPriceTableChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditingPrices, setIsEditingPrices] = useState(false);
+  const [newModel, setNewModel] = useState('');
+
+  const total = summarizeUsage(records, priceTable);
+  const byAgent = groupUsage(records, priceTable, r => r.agentId);
+  const byChapter = groupUsage(records, priceTable, r => `${r.agentId}::${r.chapter || '—'}`);
+
+  const updatePrice = (model: string, field: 'input' | 'output', value: string) => {
+    onPriceTableChange({ ...priceTable, [model]: { ...priceTable[model], [field]: Number(value) || 0 } });
+  };
+
+  const removePrice = (model: string) => {
+    const { [model]: _, ...rest } = priceTable;
+    onPriceTableChange(rest);
+  };
+
+  const addPrice = () => {
+    if (!newModel.trim() || priceTable[newModel.trim()]) return;
+    onPriceTableChange({ ...priceTable, [newModel.trim()]: { input: 0, output: 0 } });
+    setNewModel('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-slate-50 rounded-xl"
+      >
+        <span className="font-bold text-slate-700 flex items-center gap-2">
+          <Coins className="w-4 h-4 text-amber-500" /> 用量与费用
+        </span>
+        <span className="flex items-center gap-2 font-mono text-slate-500">
+          {formatTokens(total.inputTokens + total.outputTokens)} tok · {formatCost(total.cost)}{total.estimated && '*'}
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-4 border-t border-slate-100 pt-3">
+          {records.length === 0 ? (
+            <p className="text-slate-400 italic">暂无调用记录。</p>
+          ) : (
+            <div className="space-y-3">
+              {agents.filter(a => byAgent[a.id]).map(agent => (
+                <div key={agent.id}>
+                  <div className="flex justify-between font-semibold text-slate-700">
+                    <span className="truncate">{agent.name}</span>
+                    <span className="font-mono">{formatTokens(byAgent[agent.id].inputTokens)} / {formatTokens(byAgent[agent.id].outputTokens)} · {formatCost(byAgent[agent.id].cost)}</span>
+                  </div>
+                  {Object.entries(byChapter)
+                    .filter(([key]) => key.startsWith(`${agent.id}::`))
+                    .map(([key, summary]) => (
+                      <div key={key} className="flex justify-between text-slate-500 pl-3">
+                        <span className="truncate">{key.split('::')[1].replace(/^#+\s*/, '')}</span>
+                        <span className="font-mono shrink-0 ml-2">{summary.calls}× · {formatCost(summary.cost)}</span>
+                      </div>
+                    ))}
+                </div>
+              ))}
+              <div className="flex justify-between font-bold text-slate-800 border-t border-slate-100 pt-2">
+                <span>本次会话合计 (输入 / 输出)</span>
+                <span className="font-mono">{formatTokens(total.inputTokens)} / {formatTokens(total.outputTokens)} · {formatCost(total.cost)}</span>
+              </div>
+              {total.estimated && <p className="text-[10px] text-slate-400">* 部分调用未返回用量，已使用本地估算。</p>}
+            </div>
+          )}
+
+          <div>
+            <button onClick={() => setIsEditingPrices(!isEditingPrices)} className="text-indigo-600 hover:underline font-medium">
+              {isEditingPrices ? '收起价格表' : '编辑价格表 (USD / 1M tokens)'}
+            </button>
+            {isEditingPrices && (
+              <div className="mt-2 space-y-1">
+                {Object.entries(priceTable).map(([model, price]) => (
+                  <div key={model} className="flex items-center gap-1">
+                    <span className="flex-1 font-mono truncate" title={model}>{model}</span>
+                    <input type="number" min={0} step={0.01} value={price.input} onChange={(e) => updatePrice(model, 'input', e.target.value)} className="w-14 p-1 border border-slate-200 rounded font-mono" title="输入价格" />
+                    <input type="number" min={0} step={0.01} value={price.output} onChange={(e) => updatePrice(model, 'output', e.target.value)} className="w-14 p-1 border border-slate-200 rounded font-mono" title="输出价格" />
+                    <button onClick={() => removePrice(model)} className="text-slate-300 hover:text-red-500"><X className="w-3 h-3" /></button>
+                  </div>
+                ))}
+                <div className="flex items-center gap-1 pt-1">
+                  <input value={newModel} onChange={(e) => setNewModel(e.target.value)} placeholder="模型名 (前缀匹配)" className="flex-1 p-1 border border-slate-200 rounded font-mono" />
+                  <button onClick={addPrice} className="p-1 text-indigo-600 hover:bg-indigo-50 rounded"><Plus className="w-3 h-3" /></button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -1,24 +1,103 @@
 
 import React, { useState } from 'react';
-import { Agent } from '../types';
-import { Bot, FileText, FlaskConical, Image as ImageIcon, Table, Plus, X, ArrowRight, Settings, Code, GitMerge, Eye, Terminal } from 'lucide-react';
+import { Agent, AgentKind, AgentLLMOverrides, AgentOutputField, ExtraFieldSpec, GapPolicy, LLMProviderId, MergeMode, ReviewPolicy, StepCondition, StepPromptRecord, UsageSummary } from '../types';
+import { Bot, FileText, FlaskConical, Image as ImageIcon, Table, Plus, X, ArrowRight, Settings, Code, GitMerge, Eye, Cpu, Save, GitBranch, Filter, ClipboardCheck, ScanSearch } from 'lucide-react';
 import { generateAgentPrompt } from '../services/geminiService';
+import { AGENT_KIND_LABELS, FIXED_FIELD_KINDS, MERGE_MODE_LABELS, OUTPUT_FIELD_LABELS, describeOutputField, getOutputField } from '../services/agentKinds';
+import { EXTRA_FIELD_KEY_PATTERN } from '../services/sectionFields';
+import { DEFAULT_REVIEW_POLICY, resolveReviewPolicy } from '../services/sectionReviews';
+import { DEFAULT_GAP_POLICY, GAP_MODES, GAP_MODE_LABELS, resolveGapPolicy } from '../services/gapFilling';
+import { computeStepLevels, describeCondition, getConditionGapPolicy, getDependencies, getDescendants, getSinkSteps } from '../services/workflowGraph';
+import { listProviders } from '../services/providers';
+import { getProfileName, loadProfileStore } from '../services/apiProfiles';
+import { formatTokens, formatCost } from '../services/usage';
+import PromptEditor from './PromptEditor';
 
 interface WorkflowBuilderProps {
   agents: Agent[];
   onAddAgent: (index: number, agent: Agent) => void;
   onRemoveAgent: (id: string) => void;
+  onUpdateAgent: (id: string, patch: Partial<Agent>) => void;
+  usageByAgent?: Record<string, UsageSummary>;
+  // Prompt versions used by each step run (see services/promptVersions)
+  promptRecords?: StepPromptRecord[];
   isLocked: boolean;
 }
 
-const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, onRemoveAgent, isLocked }) => {
+const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, onRemoveAgent, onUpdateAgent, usageByAgent = {}, promptRecords = [], isLocked }) => {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const [insertIndex, setInsertIndex] = useState<number>(0);
+  // Step the new module is inserted in front of; null appends it after the current end steps
+  const [insertBeforeId, setInsertBeforeId] = useState<string | null>(null);
   const [newAgentName, setNewAgentName] = useState('');
   const [newAgentDesc, setNewAgentDesc] = useState('');
+  const [newAgentKind, setNewAgentKind] = useState<AgentKind>('custom');
+  // New custom modules write their own field by default instead of overwriting the body text
+  const [newAgentField, setNewAgentField] = useState<AgentOutputField>('extra');
+  const [newExtraField, setNewExtraField] = useState<ExtraFieldSpec>({ key: '', label: '', display: true, exported: false });
+  const [newMergeMode, setNewMergeMode] = useState<MergeMode>('replace');
+  const [newReviewPolicy, setNewReviewPolicy] = useState<ReviewPolicy>(DEFAULT_REVIEW_POLICY);
+  const [newGapPolicy, setNewGapPolicy] = useState<GapPolicy>(DEFAULT_GAP_POLICY);
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState(false);
 
   const [viewingAgent, setViewingAgent] = useState<Agent | null>(null);
+  const [overrideDraft, setOverrideDraft] = useState<AgentLLMOverrides>({});
+  const [bypassCacheDraft, setBypassCacheDraft] = useState(false);
+  const [dependsOnDraft, setDependsOnDraft] = useState<string[]>([]);
+  const [conditionDraft, setConditionDraft] = useState<StepCondition | undefined>(undefined);
+  const [reviewPolicyDraft, setReviewPolicyDraft] = useState<ReviewPolicy>(DEFAULT_REVIEW_POLICY);
+  const [gapPolicyDraft, setGapPolicyDraft] = useState<GapPolicy>(DEFAULT_GAP_POLICY);
+  // Raw provider / endpoint / key fields, for endpoints that are not saved as a profile
+  const [showEndpointFields, setShowEndpointFields] = useState(false);
+
+  const { levels, cyclic } = computeStepLevels(agents);
+  const columns: Agent[][] = [];
+  agents.forEach(agent => {
+    const level = levels[agent.id] ?? 0;
+    (columns[level] = columns[level] || []).push(agent);
+  });
+  const nameOf = (id: string) => agents.find(a => a.id === id)?.name || id;
+
+  const openAgentDetails = (agent: Agent) => {
+    setViewingAgent(agent);
+    setOverrideDraft(agent.llmOverrides || {});
+    setShowEndpointFields(!!(agent.llmOverrides?.provider || agent.llmOverrides?.baseUrl || agent.llmOverrides?.apiKey));
+    setBypassCacheDraft(!!agent.bypassCache);
+    setDependsOnDraft(getDependencies(agents, agent));
+    setConditionDraft(agent.condition);
+    setReviewPolicyDraft(resolveReviewPolicy(agent.reviewPolicy));
+    setGapPolicyDraft(resolveGapPolicy(agent.gapPolicy));
+  };
+
+  const toggleDependency = (id: string) => {
+    setDependsOnDraft(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+  };
+
+  const handleOverrideChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setOverrideDraft(prev => ({
+      ...prev,
+      [name]: value === '' ? undefined : type === 'number' ? Number(value) : value
+    }));
+  };
+
+  const handleSaveOverrides = () => {
+    if (!viewingAgent) return;
+    const cleaned = Object.fromEntries(
+      Object.entries(overrideDraft).filter(([, v]) => v !== undefined && v !== '')
+    ) as AgentLLMOverrides;
+    // Only pin the dependencies when they were edited, so untouched steps keep following the list order
+    const currentDeps = getDependencies(agents, viewingAgent);
+    const depsChanged = currentDeps.length !== dependsOnDraft.length || currentDeps.some(d => !dependsOnDraft.includes(d));
+    onUpdateAgent(viewingAgent.id, {
+      llmOverrides: Object.keys(cleaned).length > 0 ? cleaned : undefined,
+      bypassCache: bypassCacheDraft || undefined,
+      dependsOn: depsChanged ? dependsOnDraft : viewingAgent.dependsOn,
+      condition: conditionDraft,
+      ...(viewingAgent.kind === 'critic' ? { reviewPolicy: resolveReviewPolicy(reviewPolicyDraft) } : {}),
+      ...(viewingAgent.kind === 'review' ? { gapPolicy: resolveGapPolicy(gapPolicyDraft) } : {})
+    });
+    setViewingAgent(null);
+  };
 
   const getIcon = (iconName: string) => {
     switch (iconName) {
@@ -32,16 +111,99 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
     }
   };
 
-  const handleOpenAddModal = (index: number) => {
+  const handleOpenAddModal = (beforeId: string | null) => {
     if (isLocked) return;
-    setInsertIndex(index);
+    setInsertBeforeId(beforeId);
     setNewAgentName('');
     setNewAgentDesc('');
+    setNewAgentKind('custom');
+    setNewAgentField('extra');
+    setNewExtraField({ key: '', label: '', display: true, exported: false });
+    setNewMergeMode('replace');
+    setNewReviewPolicy(DEFAULT_REVIEW_POLICY);
+    setNewGapPolicy(DEFAULT_GAP_POLICY);
     setIsAddModalOpen(true);
   };
 
+  const writesExtraField = !FIXED_FIELD_KINDS.includes(newAgentKind) && newAgentField === 'extra';
+  const isExtraFieldValid = !writesExtraField || EXTRA_FIELD_KEY_PATTERN.test(newExtraField.key);
+
+  // Threshold, round limit and reviser of a critic; shared by the add and the details modal
+  const renderReviewPolicyFields = (policy: ReviewPolicy, onChange: (policy: ReviewPolicy) => void, excludeId?: string) => (
+    <div className="grid grid-cols-3 gap-2 text-xs text-slate-600">
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Threshold</span>
+        <input
+          type="number"
+          min={1}
+          max={10}
+          step={0.5}
+          value={policy.threshold}
+          onChange={(e) => onChange({ ...policy, threshold: Number(e.target.value) || DEFAULT_REVIEW_POLICY.threshold })}
+          className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono"
+        />
+      </label>
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Max Rounds</span>
+        <input
+          type="number"
+          min={0}
+          max={5}
+          value={policy.maxRounds}
+          onChange={(e) => onChange({ ...policy, maxRounds: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono"
+        />
+      </label>
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Reviser</span>
+        <select
+          value={policy.reviserId || ''}
+          onChange={(e) => onChange({ ...policy, reviserId: e.target.value || undefined })}
+          className="w-full p-2 border border-slate-300 rounded-lg text-xs bg-white"
+        >
+          <option value="">(第一个正文撰写模块)</option>
+          {agents.filter(a => a.kind === 'content' && a.id !== excludeId).map(a => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
+      </label>
+      <p className="col-span-3 text-[11px] text-slate-400">总分 (四项均分) 低于阈值的小节附评审意见退回修订模块，修订后重新评分；最多修订指定轮数。</p>
+    </div>
+  );
+
+  const renderGapPolicyFields = (policy: GapPolicy, onChange: (policy: GapPolicy) => void) => (
+    <div className="space-y-2 text-xs text-slate-600">
+      <div className="grid grid-cols-3 gap-2">
+        {GAP_MODES.map(mode => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange({ ...policy, mode })}
+            className={`py-1.5 text-xs rounded-lg border transition-colors ${policy.mode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+          >
+            {GAP_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Min Length</span>
+        <input
+          type="number"
+          min={1}
+          step={50}
+          value={policy.minLength ?? DEFAULT_GAP_POLICY.minLength}
+          onChange={(e) => onChange({ ...policy, minLength: Number(e.target.value) || DEFAULT_GAP_POLICY.minLength })}
+          disabled={policy.mode !== 'minLength'}
+          className="w-24 p-1.5 border border-slate-300 rounded-lg text-xs font-mono disabled:bg-slate-50 disabled:text-slate-400"
+        />
+        <span>字</span>
+      </label>
+      <p className="text-[11px] text-slate-400">整章缺失: 只补写完全为空的章节；逐小节: 补写每个空白小节；低于最小长度: 另外扩写过短的小节。补写时附上相邻小节以便衔接。图表始终按整章缺失检查。</p>
+    </div>
+  );
+
   const handleCreateAgent = async () => {
-    if (!newAgentName || !newAgentDesc) return;
+    if (!newAgentName || !newAgentDesc || !isExtraFieldValid) return;
     setIsGeneratingPrompt(true);
     try {
       // NOTE: We use default API for meta-prompting here for simplicity
@@ -55,10 +217,24 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
         icon: 'bot',
         status: 'idle',
         systemPrompt: generatedPrompt,
-        isCustom: true
+        isCustom: true,
+        kind: newAgentKind,
+        ...(FIXED_FIELD_KINDS.includes(newAgentKind) ? {} : { outputField: newAgentField, mergeMode: newMergeMode }),
+        ...(writesExtraField ? { extraField: { ...newExtraField, label: newExtraField.label.trim() || newExtraField.key } } : {}),
+        ...(newAgentKind === 'critic' ? { reviewPolicy: resolveReviewPolicy(newReviewPolicy) } : {}),
+        ...(newAgentKind === 'review' ? { gapPolicy: resolveGapPolicy(newGapPolicy) } : {})
       };
-      
-      onAddAgent(insertIndex, newAgent);
+
+      const target = agents.find(a => a.id === insertBeforeId);
+      if (target) {
+        // Take the target's place in the graph: inherit its dependencies, then the target waits on the new step
+        newAgent.dependsOn = getDependencies(agents, target);
+        onAddAgent(agents.indexOf(target), newAgent);
+        onUpdateAgent(target.id, { dependsOn: [newAgent.id] });
+      } else {
+        newAgent.dependsOn = getSinkSteps(agents);
+        onAddAgent(agents.length, newAgent);
+      }
       setIsAddModalOpen(false);
     } catch (e) {
       alert("Failed to generate prompt. Please check your connection.");
@@ -74,62 +250,97 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
           <Settings className="w-5 h-5 text-indigo-600" />
           工作流设计器 (Workflow Designer)
         </h3>
-        <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">点击卡片查看详细提示词，点击 "+" 插入模块</span>
+        <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">点击卡片查看提示词与依赖，点击 "+" 插入模块</span>
       </div>
 
-      <div className="flex flex-wrap items-center gap-2 p-4 bg-slate-100 rounded-xl border border-slate-200 overflow-x-auto min-h-[120px]">
-        {agents.map((agent, idx) => (
-          <React.Fragment key={agent.id}>
-            <button 
-              onClick={() => handleOpenAddModal(idx)}
-              disabled={isLocked}
-              className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${
-                isLocked ? 'opacity-0 w-0 overflow-hidden' : 'bg-slate-200 hover:bg-indigo-500 hover:text-white text-slate-400'
-              }`}
-            >
-              <Plus className="w-3 h-3" />
-            </button>
+      {cyclic.length > 0 && (
+        <p className="text-xs text-red-600 mb-2">依赖关系存在循环，以下步骤将无法执行: {cyclic.map(nameOf).join('、')}</p>
+      )}
 
-            <div 
-              onClick={() => setViewingAgent(agent)}
-              className={`relative flex flex-col items-center justify-center p-3 rounded-lg border w-36 h-32 text-center bg-white transition-all cursor-pointer hover:shadow-lg group ${
-               agent.status === 'working' ? 'border-indigo-500 ring-2 ring-indigo-200 scale-105 shadow-md' :
-               agent.status === 'completed' ? 'border-green-500 bg-green-50' :
-               agent.status === 'error' ? 'border-red-500 bg-red-50' : 'border-slate-300 hover:border-indigo-300'
-            }`}>
-              {!isLocked && (
-                <button 
-                  onClick={(e) => { e.stopPropagation(); onRemoveAgent(agent.id); }}
-                  className="absolute -top-2 -right-2 bg-slate-100 text-slate-400 rounded-full p-1 hover:bg-red-500 hover:text-white transition-colors z-10"
-                >
-                  <X className="w-3 h-3" />
-                </button>
-              )}
+      {/* Steps in the same column run in parallel once the columns before them are done */}
+      <div className="flex items-center gap-2 p-4 bg-slate-100 rounded-xl border border-slate-200 overflow-x-auto min-h-[120px]">
+        {columns.map((column, colIdx) => (
+          <React.Fragment key={colIdx}>
+            <div className="flex flex-col gap-3 flex-shrink-0">
+              {column.map(agent => {
+                const deps = getDependencies(agents, agent);
+                return (
+                  <div key={agent.id} className="flex items-center gap-1">
+                    <button 
+                      onClick={() => handleOpenAddModal(agent.id)}
+                      disabled={isLocked}
+                      title="在此步骤之前插入模块"
+                      className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${
+                        isLocked ? 'opacity-0 w-0 overflow-hidden' : 'bg-slate-200 hover:bg-indigo-500 hover:text-white text-slate-400'
+                      }`}
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
 
-              <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                 <Eye className="w-3 h-3 text-indigo-400" />
-              </div>
-              
-              <div className={`p-2 rounded-full mb-2 ${
-                agent.status === 'working' ? 'bg-indigo-100 text-indigo-600 animate-pulse' : 
-                agent.status === 'completed' ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-500'
-              }`}>
-                {getIcon(agent.icon)}
-              </div>
-              <span className="text-xs font-bold text-slate-800 line-clamp-1">{agent.name}</span>
-              <span className="text-[10px] text-slate-500 line-clamp-2 leading-tight mt-1">{agent.description}</span>
+                    <div 
+                      onClick={() => openAgentDetails(agent)}
+                      className={`relative flex flex-col items-center justify-center p-3 rounded-lg border w-36 h-32 text-center bg-white transition-all cursor-pointer hover:shadow-lg group ${
+                       agent.status === 'working' ? 'border-indigo-500 ring-2 ring-indigo-200 scale-105 shadow-md' :
+                       agent.status === 'completed' ? 'border-green-500 bg-green-50' :
+                       agent.status === 'skipped' ? 'border-dashed border-slate-300 opacity-60' :
+                       agent.status === 'error' ? 'border-red-500 bg-red-50' : 'border-slate-300 hover:border-indigo-300'
+                    }`}>
+                      {!isLocked && (
+                        <button 
+                          onClick={(e) => { e.stopPropagation(); onRemoveAgent(agent.id); }}
+                          className="absolute -top-2 -right-2 bg-slate-100 text-slate-400 rounded-full p-1 hover:bg-red-500 hover:text-white transition-colors z-10"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+
+                      <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                         <Eye className="w-3 h-3 text-indigo-400" />
+                      </div>
+                      
+                      <div className={`p-2 rounded-full mb-2 ${
+                        agent.status === 'working' ? 'bg-indigo-100 text-indigo-600 animate-pulse' : 
+                        agent.status === 'completed' ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-500'
+                      }`}>
+                        {getIcon(agent.icon)}
+                      </div>
+                      <span className="text-xs font-bold text-slate-800 line-clamp-1">{agent.name}</span>
+                      <span className="text-[10px] text-slate-500 line-clamp-2 leading-tight mt-1">{agent.description}</span>
+                      {(agent.wordCount || usageByAgent[agent.id]) && (
+                        <span className="text-[9px] font-mono text-slate-400 mt-1" title="字数 · Token 用量 · 估算费用">
+                          {agent.wordCount ? `${agent.wordCount}字` : ''}
+                          {usageByAgent[agent.id] && ` · ${formatTokens(usageByAgent[agent.id].inputTokens + usageByAgent[agent.id].outputTokens)} tok · ${formatCost(usageByAgent[agent.id].cost)}`}
+                        </span>
+                      )}
+                      {(agent.llmOverrides?.modelName || getProfileName(agent.llmOverrides?.profileId)) && (
+                        <span className="absolute top-1 left-2 right-5 text-[9px] font-mono text-indigo-500 truncate text-left" title="模型覆盖">
+                          {[getProfileName(agent.llmOverrides?.profileId), agent.llmOverrides?.modelName].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                      <span className="absolute bottom-1 left-2 flex items-center gap-1 text-slate-400">
+                        {deps.length > 1 && (
+                          <span title={`等待: ${deps.map(nameOf).join('、')}`}><GitBranch className="w-3 h-3" /></span>
+                        )}
+                        {agent.condition && (
+                          <span title={`仅当${describeCondition(agent.condition, getConditionGapPolicy(agent))}时运行`}><Filter className="w-3 h-3 text-amber-500" /></span>
+                        )}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
             </div>
 
-            {idx < agents.length - 1 && (
+            {colIdx < columns.length - 1 && (
                <ArrowRight className="text-slate-300 w-4 h-4 flex-shrink-0" />
             )}
           </React.Fragment>
         ))}
 
         <button 
-          onClick={() => handleOpenAddModal(agents.length)}
+          onClick={() => handleOpenAddModal(null)}
           disabled={isLocked}
-          className={`ml-2 w-8 h-8 rounded-full flex items-center justify-center transition-all ${
+          className={`ml-2 w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center transition-all ${
             isLocked ? 'opacity-50 cursor-not-allowed' : 'bg-indigo-50 hover:bg-indigo-500 hover:text-white text-indigo-400 border border-indigo-200 border-dashed'
           }`}
         >
@@ -161,6 +372,91 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
                   className="w-full p-2 border border-slate-300 rounded-lg h-24 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">模块类型</label>
+                  <select
+                    value={newAgentKind}
+                    onChange={(e) => setNewAgentKind(e.target.value as AgentKind)}
+                    className="w-full p-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    {(Object.keys(AGENT_KIND_LABELS) as AgentKind[]).map(kind => (
+                      <option key={kind} value={kind}>{AGENT_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">写入字段</label>
+                  <select
+                    value={getOutputField({ kind: newAgentKind, outputField: newAgentField })}
+                    onChange={(e) => setNewAgentField(e.target.value as AgentOutputField)}
+                    disabled={FIXED_FIELD_KINDS.includes(newAgentKind)}
+                    className="w-full p-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                    title="由类型决定的字段不可修改"
+                  >
+                    {(['extra', 'content', 'visuals', 'title'] as AgentOutputField[]).map(field => (
+                      <option key={field} value={field} disabled={field === 'title' && newAgentKind !== 'structure'}>{OUTPUT_FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {newAgentKind === 'critic' && (
+                <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                  {renderReviewPolicyFields(newReviewPolicy, setNewReviewPolicy)}
+                </div>
+              )}
+              {newAgentKind === 'review' && (
+                <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                  {renderGapPolicyFields(newGapPolicy, setNewGapPolicy)}
+                </div>
+              )}
+              {!FIXED_FIELD_KINDS.includes(newAgentKind) && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">合并方式</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(MERGE_MODE_LABELS) as MergeMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setNewMergeMode(mode)}
+                        className={`py-1.5 text-xs rounded-lg border transition-colors ${newMergeMode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                      >
+                        {MERGE_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[11px] text-slate-400 mt-1">替换: 覆盖字段原有内容；追加: 接在原有内容之后；批注: 以引用块附在原有内容之后，重新运行时更新自己的批注。</p>
+                </div>
+              )}
+              {writesExtraField && (
+                <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      value={newExtraField.key}
+                      onChange={(e) => setNewExtraField(prev => ({ ...prev, key: e.target.value.trim() }))}
+                      placeholder="字段名，如 notes、citations"
+                      className={`w-full p-2 border rounded-lg text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500 ${newExtraField.key && !isExtraFieldValid ? 'border-red-400' : 'border-slate-300'}`}
+                    />
+                    <input
+                      value={newExtraField.label}
+                      onChange={(e) => setNewExtraField(prev => ({ ...prev, label: e.target.value }))}
+                      placeholder="显示名称，如 审稿意见"
+                      className="w-full p-2 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div className="flex gap-4 text-xs text-slate-600">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={newExtraField.display} onChange={(e) => setNewExtraField(prev => ({ ...prev, display: e.target.checked }))} className="w-4 h-4 text-indigo-600 rounded" />
+                      在结果中显示
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={newExtraField.exported} onChange={(e) => setNewExtraField(prev => ({ ...prev, exported: e.target.checked }))} className="w-4 h-4 text-indigo-600 rounded" />
+                      导出到 Word / LaTeX
+                    </label>
+                  </div>
+                  {newExtraField.key && !isExtraFieldValid && <p className="text-[11px] text-red-600">字段名只能包含字母、数字和下划线，且以字母开头。</p>}
+                </div>
+              )}
               <div className="flex gap-3 mt-6">
                 <button 
                   onClick={() => setIsAddModalOpen(false)}
@@ -170,7 +466,7 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
                 </button>
                 <button 
                   onClick={handleCreateAgent}
-                  disabled={isGeneratingPrompt || !newAgentName || !newAgentDesc}
+                  disabled={isGeneratingPrompt || !newAgentName || !newAgentDesc || !isExtraFieldValid}
                   className="flex-1 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex justify-center items-center gap-2"
                 >
                   {isGeneratingPrompt ? (
@@ -199,6 +495,10 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
                     <h3 className="text-xl font-bold text-slate-800">{viewingAgent.name}</h3>
                     <div className="flex items-center gap-2">
                         <span className="text-sm text-slate-500 font-medium">{viewingAgent.role}</span>
+                        <span className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full font-bold" title="模块类型 → 写入字段">
+                          {AGENT_KIND_LABELS[viewingAgent.kind]} → {describeOutputField(viewingAgent)}
+                          {viewingAgent.mergeMode && viewingAgent.mergeMode !== 'replace' && ` · ${MERGE_MODE_LABELS[viewingAgent.mergeMode]}`}
+                        </span>
                         {viewingAgent.isCustom && <span className="text-[10px] bg-indigo-100 text-indigo-600 px-2 py-0.5 rounded-full font-bold">Custom</span>}
                     </div>
                   </div>
@@ -216,35 +516,176 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ agents, onAddAgent, o
                     </p>
                  </div>
 
+                 <PromptEditor
+                    agent={viewingAgent}
+                    records={promptRecords.filter(r => r.agentId === viewingAgent.id)}
+                    disabled={viewingAgent.status === 'working'}
+                    onCommit={(patch) => {
+                      onUpdateAgent(viewingAgent.id, patch);
+                      setViewingAgent({ ...viewingAgent, ...patch });
+                    }}
+                 />
+
                  <div>
-                    <h4 className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-2 flex items-center gap-2">
-                       <Terminal className="w-4 h-4" /> 系统核心提示词 (System Prompt)
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                       <GitBranch className="w-4 h-4" /> 执行顺序 (Dependencies)
                     </h4>
-                    <div className="bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-inner">
-                      <div className="flex items-center justify-between px-4 py-2 bg-slate-950 border-b border-slate-800">
-                        <div className="flex gap-1.5">
-                          <div className="w-2.5 h-2.5 rounded-full bg-red-500/20"></div>
-                          <div className="w-2.5 h-2.5 rounded-full bg-yellow-500/20"></div>
-                          <div className="w-2.5 h-2.5 rounded-full bg-green-500/20"></div>
-                        </div>
-                        <span className="text-[10px] text-slate-500 font-mono opacity-60">instruction.md</span>
+                    <p className="text-xs text-slate-500 mb-3">此模块在勾选的步骤全部完成 (或被跳过) 后才会运行；依赖相同的模块会并行执行。</p>
+                    <fieldset disabled={viewingAgent.status === 'working'} className="bg-slate-50 p-4 rounded-lg border border-slate-100 space-y-3 disabled:opacity-50">
+                      <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        {agents.filter(a => a.id !== viewingAgent.id && !getDescendants(agents, viewingAgent.id).has(a.id)).map(a => (
+                          <label key={a.id} className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                            <input type="checkbox" checked={dependsOnDraft.includes(a.id)} onChange={() => toggleDependency(a.id)} className="w-4 h-4 text-indigo-600 rounded" />
+                            {a.name}
+                          </label>
+                        ))}
+                        {dependsOnDraft.length === 0 && <span className="text-xs text-slate-400">(无依赖，工作流开始时即运行)</span>}
                       </div>
-                      <div className="p-4 max-h-[300px] overflow-auto custom-scrollbar">
-                        <pre className="text-xs font-mono text-slate-300 whitespace-pre-wrap leading-relaxed">
-                          {viewingAgent.systemPrompt}
-                        </pre>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 pt-3 border-t border-slate-200">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!!conditionDraft}
+                            onChange={(e) => setConditionDraft(e.target.checked ? { type: 'missingSections', field: 'any', minCount: 1 } : undefined)}
+                            className="w-4 h-4 text-indigo-600 rounded"
+                          />
+                          {viewingAgent.kind === 'review' ? '仅当 (按查漏补缺规则) 缺少' : '仅当缺失'}
+                        </label>
+                        <select
+                          value={conditionDraft?.field || 'any'}
+                          disabled={!conditionDraft}
+                          onChange={(e) => conditionDraft && setConditionDraft({ ...conditionDraft, field: e.target.value as StepCondition['field'] })}
+                          className="p-1 border border-slate-300 rounded bg-white text-xs"
+                        >
+                          <option value="any">正文或图表</option>
+                          <option value="content">正文</option>
+                          <option value="visuals">图表</option>
+                        </select>
+                        <span>的小节数 ≥</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={conditionDraft?.minCount ?? 1}
+                          disabled={!conditionDraft}
+                          onChange={(e) => conditionDraft && setConditionDraft({ ...conditionDraft, minCount: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-16 p-1 border border-slate-300 rounded text-xs font-mono"
+                        />
+                        <span>时运行，否则跳过</span>
                       </div>
-                    </div>
+                    </fieldset>
+                 </div>
+
+                 {viewingAgent.kind === 'critic' && (
+                   <div>
+                      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                         <ClipboardCheck className="w-4 h-4" /> 评审与修订 (Review Loop)
+                      </h4>
+                      <fieldset disabled={viewingAgent.status === 'working'} className="bg-slate-50 p-4 rounded-lg border border-slate-100 disabled:opacity-50">
+                        {renderReviewPolicyFields(reviewPolicyDraft, setReviewPolicyDraft, viewingAgent.id)}
+                      </fieldset>
+                   </div>
+                 )}
+
+                 {viewingAgent.kind === 'review' && (
+                   <div>
+                      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                         <ScanSearch className="w-4 h-4" /> 查漏补缺 (Gap Policy)
+                      </h4>
+                      <fieldset disabled={viewingAgent.status === 'working'} className="bg-slate-50 p-4 rounded-lg border border-slate-100 disabled:opacity-50">
+                        {renderGapPolicyFields(gapPolicyDraft, setGapPolicyDraft)}
+                      </fieldset>
+                   </div>
+                 )}
+
+                 <div>
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                       <Cpu className="w-4 h-4" /> 模型覆盖 (Model Overrides)
+                    </h4>
+                    <p className="text-xs text-slate-500 mb-3">留空则继承全局 API 设置。可为此模块单独选择 API 配置 (在设置中保存)，或指定模型、温度、最大输出长度。</p>
+                    <fieldset disabled={viewingAgent.status === 'working'} className="grid grid-cols-2 gap-3 bg-slate-50 p-4 rounded-lg border border-slate-100 disabled:opacity-50">
+                      <div className="col-span-2">
+                        <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">API Profile</label>
+                        <select
+                          name="profileId"
+                          value={overrideDraft.profileId || ''}
+                          onChange={handleOverrideChange}
+                          className="w-full p-2 border border-slate-300 rounded-lg text-xs bg-white"
+                        >
+                          <option value="">(继承全局)</option>
+                          {loadProfileStore().profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                          {overrideDraft.profileId && !loadProfileStore().profiles.some(p => p.id === overrideDraft.profileId) && (
+                            <option value={overrideDraft.profileId}>(本机不存在的配置，将继承全局)</option>
+                          )}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Model Name</label>
+                        <input name="modelName" value={overrideDraft.modelName || ''} onChange={handleOverrideChange} placeholder="(继承全局)" className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono" />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Temperature</label>
+                        <input type="number" name="temperature" min={0} max={2} step={0.1} value={overrideDraft.temperature ?? ''} onChange={handleOverrideChange} placeholder="0.7" className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono" />
+                      </div>
+                      <div>
+                        <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Max Tokens</label>
+                        <input type="number" name="maxTokens" min={1} value={overrideDraft.maxTokens ?? ''} onChange={handleOverrideChange} placeholder="(默认)" className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono" />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setShowEndpointFields(v => !v)}
+                        className="col-span-2 text-left text-[10px] font-bold text-slate-400 uppercase tracking-wider hover:text-slate-600"
+                      >
+                        {showEndpointFields ? '▾' : '▸'} 高级: 自定义端点
+                      </button>
+                      {showEndpointFields && (
+                        <>
+                          <p className="col-span-2 text-[11px] text-amber-600 -mt-2">优先使用已保存的 API 配置；此处填写的 API Key 会保存在模块中。</p>
+                          <div className="col-span-2">
+                            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Provider</label>
+                            <select
+                              name="provider"
+                              value={overrideDraft.provider || ''}
+                              onChange={handleOverrideChange}
+                              className="w-full p-2 border border-slate-300 rounded-lg text-xs bg-white"
+                            >
+                              <option value="">(继承)</option>
+                              {listProviders().map(p => (
+                                <option key={p.id} value={p.id as LLMProviderId}>{p.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Base URL</label>
+                            <input name="baseUrl" value={overrideDraft.baseUrl || ''} onChange={handleOverrideChange} placeholder="(继承)" className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono" />
+                          </div>
+                          <div>
+                            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">API Key</label>
+                            <input type="password" name="apiKey" value={overrideDraft.apiKey || ''} onChange={handleOverrideChange} placeholder="(继承)" className="w-full p-2 border border-slate-300 rounded-lg text-xs font-mono" />
+                          </div>
+                        </>
+                      )}
+                      <label className="col-span-2 flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                        <input type="checkbox" checked={bypassCacheDraft} onChange={(e) => setBypassCacheDraft(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded" />
+                        跳过响应缓存 (每次都重新调用模型)
+                      </label>
+                    </fieldset>
                  </div>
               </div>
 
-              <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end">
+              <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-3">
                  <button 
                    onClick={() => setViewingAgent(null)}
                    className="px-6 py-2 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-100 hover:text-slate-900 transition-all shadow-sm"
                  >
                    关闭
                  </button>
+                 <button 
+                   onClick={handleSaveOverrides}
+                   disabled={viewingAgent.status === 'working'}
+                   className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 transition-all shadow-sm flex items-center gap-2 disabled:opacity-50"
+                 >
+                   <Save className="w-4 h-4" /> 保存设置
+                 </button>
               </div>
             </div>
         </div>
@@ -0,0 +1,88 @@
+import { Agent, AgentKind, AgentOutputField, MergeMode, PromptSlot } from "../types";
+import { BUILT_IN_PROMPTS, BuiltInPromptKey } from "./builtInPrompts";
+
+export const AGENT_KIND_LABELS: Record<AgentKind, string> = {
+  structure: '结构搭建',
+  content: '正文撰写',
+  visuals: '图表生成',
+  review: '审查补全',
+  critic: '评审修订',
+  transform: '改写润色',
+  custom: '自定义'
+};
+
+export const OUTPUT_FIELD_LABELS: Record<AgentOutputField, string> = {
+  title: '标题',
+  content: '正文',
+  visuals: '图表',
+  extra: '自定义字段'
+};
+
+export const MERGE_MODE_LABELS: Record<MergeMode, string> = {
+  replace: '替换',
+  append: '追加',
+  annotate: '批注'
+};
+
+const DEFAULT_OUTPUT_FIELD: Record<AgentKind, AgentOutputField> = {
+  structure: 'title',
+  content: 'content',
+  visuals: 'visuals',
+  review: 'content',
+  // The critic's revisions rewrite body text
+  critic: 'content',
+  transform: 'content',
+  custom: 'content'
+};
+
+// Kinds whose output field is fixed by what they do
+export const FIXED_FIELD_KINDS: AgentKind[] = ['structure', 'content', 'visuals', 'review', 'critic'];
+
+export const getOutputField = (agent: Pick<Agent, 'kind' | 'outputField'>): AgentOutputField =>
+  FIXED_FIELD_KINDS.includes(agent.kind) ? DEFAULT_OUTPUT_FIELD[agent.kind] : agent.outputField || DEFAULT_OUTPUT_FIELD[agent.kind];
+
+// Field name as shown in the UI; extra fields show their declared label
+export const describeOutputField = (agent: Pick<Agent, 'kind' | 'outputField' | 'extraField'>): string => {
+  const field = getOutputField(agent);
+  return field === 'extra' && agent.extraField ? `${agent.extraField.label} (${agent.extraField.key})` : OUTPUT_FIELD_LABELS[field];
+};
+
+// --- Session migration ---
+
+// Saves from before `kind` existed: recover it the way behaviour used to be chosen,
+// from the agent id and name (custom agents named like a built-in one behaved like it).
+export const inferAgentKind = (agent: Partial<Agent>): AgentKind => {
+  const name = agent.name || '';
+  if (agent.id === 'final_draft') return 'review';
+  if (name.includes("架构师") || name.includes("Architect")) return 'structure';
+  if (name.includes("视觉") || name.includes("Visuals")) return 'visuals';
+  return agent.isCustom ? 'custom' : 'content';
+};
+
+// Placeholder shown as the Chief Editor's prompt before its fix prompts became editable
+const LEGACY_REVIEW_PROMPT = '(系统自动执行查漏补缺)';
+
+// Saves from before prompt versioning: recover which built-in prompts a built-in agent started from
+const inferBuiltInPrompts = (agent: Agent): Partial<Record<PromptSlot, string>> | undefined => {
+  if (agent.isCustom) return undefined;
+  switch (agent.kind) {
+    case 'structure': {
+      const architects: BuiltInPromptKey[] = ['architect_master', 'architect_bachelor', 'architect_doctoral', 'architect_journal'];
+      return { system: architects.find(key => BUILT_IN_PROMPTS[key] === agent.systemPrompt) || 'architect_master' };
+    }
+    case 'content': return { system: 'planner' };
+    case 'visuals': return { system: 'visuals' };
+    case 'critic': return { system: 'reviewer' };
+    case 'review': return { system: 'fixer_content', visualsFix: 'fixer_visuals' };
+    default: return undefined;
+  }
+};
+
+export const migrateAgents = (agents: Partial<Agent>[]): Agent[] =>
+  agents.map(raw => {
+    const agent = raw.kind ? raw as Agent : { ...raw, kind: inferAgentKind(raw) } as Agent;
+    const migrated = agent.builtInPrompts ? agent : { ...agent, builtInPrompts: inferBuiltInPrompts(agent) };
+    return migrated.kind === 'review' && migrated.systemPrompt === LEGACY_REVIEW_PROMPT
+      ? { ...migrated, systemPrompt: BUILT_IN_PROMPTS.fixer_content }
+      : migrated;
+  });
@@ -0,0 +1,72 @@
+import { ApiConfig, ApiProfile } from "../types";
+import { normalizeApiConfig } from "./providers";
+
+// Named API profiles kept in localStorage so switching between endpoints does not mean
+// retyping URL, key and model. Keys are stored in this browser only.
+
+const PROFILES_KEY = 'thesisforge.apiProfiles';
+
+export interface ProfileStore {
+  profiles: ApiProfile[];
+  activeId: string;
+}
+
+// Without a key of its own, Gemini uses the API_KEY environment variable
+export const DEFAULT_PROFILE: ApiProfile = {
+  id: 'default',
+  name: '默认 (Gemini)',
+  config: {
+    provider: 'gemini',
+    baseUrl: '',
+    apiKey: '',
+    modelName: 'gemini-2.5-flash'
+  }
+};
+
+const DEFAULT_STORE: ProfileStore = { profiles: [DEFAULT_PROFILE], activeId: DEFAULT_PROFILE.id };
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (!raw) return DEFAULT_STORE;
+    const store = JSON.parse(raw) as ProfileStore;
+    if (!Array.isArray(store.profiles) || store.profiles.length === 0) return DEFAULT_STORE;
+    return {
+      profiles: store.profiles.map(p => ({ ...p, config: normalizeApiConfig(p.config) })),
+      activeId: store.activeId
+    };
+  } catch (e) {
+    return DEFAULT_STORE;
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+};
+
+export const getActiveProfile = (store: ProfileStore): ApiProfile =>
+  store.profiles.find(p => p.id === store.activeId) || store.profiles[0];
+
+export const createProfile = (name: string, config: ApiConfig): ApiProfile => ({
+  id: `profile_${Date.now().toString(36)}`,
+  name,
+  config
+});
+
+// The profile's config tagged with its ID, as handed to the service layer
+export const toProfileConfig = (profile: ApiProfile): ApiConfig => ({ ...profile.config, profileId: profile.id });
+
+export const getProfileName = (profileId?: string): string | undefined =>
+  profileId ? loadProfileStore().profiles.find(p => p.id === profileId)?.name : undefined;
+
+// Resolves a config's fallback chain into configs. Unknown IDs (e.g. from a session saved on
+// another machine) are skipped; fallbacks never chain further.
+export const resolveFallbackConfigs = (config: ApiConfig): ApiConfig[] => {
+  if (!config.fallbackProfileIds || config.fallbackProfileIds.length === 0) return [];
+  const { profiles } = loadProfileStore();
+  return config.fallbackProfileIds
+    .filter(id => id !== config.profileId)
+    .map(id => profiles.find(p => p.id === id))
+    .filter((p): p is ApiProfile => !!p)
+    .map(p => ({ ...toProfileConfig(p), fallbackProfileIds: undefined }));
+};
@@ -0,0 +1,36 @@
+
+// Crash-safe copy of the session, written after every step of an unattended run.
+// Same shape as a downloaded save file, so restoring goes through the normal loader.
+
+const AUTOSAVE_KEY = 'thesisforge.autosave';
+
+export interface AutosaveInfo {
+  timestamp: string;
+  topic: string;
+}
+
+// Returns false when the browser refuses the write (storage quota), so the caller can warn
+export const writeAutosave = (session: { timestamp: string }): boolean => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(session));
+    return true;
+  } catch (e) {
+    console.error("Autosave failed", e);
+    return false;
+  }
+};
+
+export const readAutosave = (): any | null => {
+  try {
+    const raw = localStorage.getItem(AUTOSAVE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const getAutosaveInfo = (): AutosaveInfo | null => {
+  const session = readAutosave();
+  if (!session?.input) return null;
+  return { timestamp: session.timestamp, topic: session.input.topic || '' };
+};
@@ -0,0 +1,196 @@
+import { ThesisSection } from "../types";
+import { estimateTokens } from "../utils/tokenEstimator";
+
+// Plans the batches of a content pass before anything is sent: each batch has to fit the
+// model's output limit (with headroom) and context window. Small chapters are merged,
+// oversized ones are split along their subsection hierarchy (## → ### → single sections).
+
+export interface ModelLimits {
+  contextTokens: number;
+  outputTokens: number;
+}
+
+// Matched by model-name prefix like the price table
+export const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gemini-3': { contextTokens: 1048576, outputTokens: 65536 },
+  'gemini-2.5': { contextTokens: 1048576, outputTokens: 65536 },
+  'gemini-2.0': { contextTokens: 1048576, outputTokens: 8192 },
+  'gpt-5': { contextTokens: 400000, outputTokens: 128000 },
+  'gpt-4.1': { contextTokens: 1047576, outputTokens: 32768 },
+  'gpt-4o': { contextTokens: 128000, outputTokens: 16384 },
+  'o3': { contextTokens: 200000, outputTokens: 100000 },
+  'o4-mini': { contextTokens: 200000, outputTokens: 100000 },
+  'claude-sonnet-4': { contextTokens: 200000, outputTokens: 64000 },
+  'claude-opus-4': { contextTokens: 200000, outputTokens: 32000 },
+  'claude-haiku-4': { contextTokens: 200000, outputTokens: 64000 },
+  'claude-3-5': { contextTokens: 200000, outputTokens: 8192 },
+  'deepseek-chat': { contextTokens: 64000, outputTokens: 8192 },
+  'deepseek-reasoner': { contextTokens: 64000, outputTokens: 32000 },
+  'qwen': { contextTokens: 32768, outputTokens: 8192 },
+  'llama': { contextTokens: 8192, outputTokens: 4096 }
+};
+
+// Conservative fallback for models missing from the table
+export const DEFAULT_MODEL_LIMITS: ModelLimits = { contextTokens: 32000, outputTokens: 8192 };
+
+export const findModelLimits = (model: string): ModelLimits => {
+  if (MODEL_LIMITS[model]) return MODEL_LIMITS[model];
+  const key = Object.keys(MODEL_LIMITS)
+    .filter(k => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_LIMITS[key] : DEFAULT_MODEL_LIMITS;
+};
+
+// Typical answer length per section
+const EXPECTED_OUTPUT_TOKENS = { content: 1200, visuals: 600 };
+// Models slow down and drift on very long answers even when the limit allows more
+const PRACTICAL_OUTPUT_CAP = 24000;
+// Leave room for JSON escaping and models that overshoot the requested length
+const OUTPUT_HEADROOM = 0.75;
+// Chapters estimated below this share of the budget count as small and may be merged
+const SMALL_CHAPTER_RATIO = 0.25;
+// Merged batches stay below this share of the budget so chapters still run in parallel
+const MERGED_BATCH_RATIO = 0.5;
+const DEEPEST_LEVEL = 4;
+
+export interface BatchBudget {
+  outputTokens: number;
+  promptTokens: number;
+  // Fixed prompt cost of every batch (system prompt, context, instructions)
+  overheadTokens: number;
+}
+
+export const computeBatchBudget = (model: string, maxTokens: number | undefined, overheadTokens: number): BatchBudget => {
+  const limits = findModelLimits(model);
+  const outputLimit = Math.min(limits.outputTokens, maxTokens || Infinity);
+  return {
+    outputTokens: Math.floor(Math.min(outputLimit, PRACTICAL_OUTPUT_CAP) * OUTPUT_HEADROOM),
+    promptTokens: limits.contextTokens - outputLimit,
+    overheadTokens
+  };
+};
+
+// Per-section costs of a pass on top of a title line and a typical answer
+export interface SectionCostHints {
+  // Current text the pass puts into the prompt to revise or expand (rewrite and gap passes);
+  // the answer is expected to be at least as long
+  existingText?: (section: ThesisSection) => string;
+  // Further prompt tokens every section adds (e.g. the neighbour excerpts of gap passes)
+  extraPromptTokens?: number;
+}
+
+export interface PlannerChapter {
+  title: string;
+  sections: ThesisSection[];
+}
+
+export interface PlannedBatch {
+  title: string;
+  sections: ThesisSection[];
+  estimatedOutputTokens: number;
+}
+
+const existingTokensOf = (section: ThesisSection, hints: SectionCostHints) =>
+  hints.existingText ? estimateTokens(hints.existingText(section) || '') : 0;
+
+const outputTokensOf = (sections: ThesisSection[], field: 'content' | 'visuals', hints: SectionCostHints) =>
+  sections.reduce((sum, s) => sum + Math.max(EXPECTED_OUTPUT_TOKENS[field], existingTokensOf(s, hints)), 0);
+
+// Each section adds one line to the prompt's section list, plus its current text when shown
+const promptTokensOf = (sections: ThesisSection[], budget: BatchBudget, hints: SectionCostHints) =>
+  budget.overheadTokens + sections.reduce((sum, s) =>
+    sum + estimateTokens(s.title) + 12 + existingTokensOf(s, hints) + (hints.extraPromptTokens || 0), 0);
+
+const fits = (sections: ThesisSection[], field: 'content' | 'visuals', budget: BatchBudget, hints: SectionCostHints, outputLimit = budget.outputTokens) =>
+  outputTokensOf(sections, field, hints) <= outputLimit && promptTokensOf(sections, budget, hints) <= budget.promptTokens;
+
+// Groups a flat section list at the given heading level: every section at or above the level
+// opens a group, deeper sections join the group before them.
+const groupByLevel = (sections: ThesisSection[], level: number): ThesisSection[][] => {
+  const groups: ThesisSection[][] = [];
+  for (const section of sections) {
+    if (groups.length === 0 || section.level <= level) groups.push([section]);
+    else groups[groups.length - 1].push(section);
+  }
+  return groups;
+};
+
+// Splits an oversized chapter by subsection hierarchy, packing neighbouring groups greedily
+const splitSections = (
+  sections: ThesisSection[],
+  level: number,
+  field: 'content' | 'visuals',
+  budget: BatchBudget,
+  hints: SectionCostHints
+): ThesisSection[][] => {
+  if (fits(sections, field, budget, hints) || sections.length === 1) return [sections];
+  if (level > DEEPEST_LEVEL) return sections.map(s => [s]);
+
+  const groups = groupByLevel(sections, level);
+  if (groups.length === 1) return splitSections(sections, level + 1, field, budget, hints);
+
+  const batches: ThesisSection[][] = [];
+  let current: ThesisSection[] = [];
+  for (const group of groups) {
+    if (!fits(group, field, budget, hints)) {
+      if (current.length > 0) batches.push(current);
+      current = [];
+      batches.push(...splitSections(group, level + 1, field, budget, hints));
+      continue;
+    }
+    if (fits([...current, ...group], field, budget, hints)) {
+      current = [...current, ...group];
+    } else {
+      batches.push(current);
+      current = group;
+    }
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+export const planBatches = (
+  chapters: PlannerChapter[],
+  field: 'content' | 'visuals',
+  budget: BatchBudget,
+  hints: SectionCostHints = {}
+): PlannedBatch[] => {
+  const batches: PlannedBatch[] = [];
+  const smallLimit = budget.outputTokens * SMALL_CHAPTER_RATIO;
+  const mergedLimit = budget.outputTokens * MERGED_BATCH_RATIO;
+  // Small chapters collected for merging with their neighbours
+  let pending: PlannerChapter[] = [];
+
+  const flushPending = () => {
+    if (pending.length === 0) return;
+    const sections = pending.flatMap(c => c.sections);
+    batches.push({
+      title: pending.map(c => c.title).join(' / '),
+      sections,
+      estimatedOutputTokens: outputTokensOf(sections, field, hints)
+    });
+    pending = [];
+  };
+
+  for (const chapter of chapters) {
+    const estimate = outputTokensOf(chapter.sections, field, hints);
+
+    if (estimate <= smallLimit) {
+      const merged = [...pending.flatMap(c => c.sections), ...chapter.sections];
+      if (pending.length > 0 && !fits(merged, field, budget, hints, mergedLimit)) flushPending();
+      pending.push(chapter);
+      continue;
+    }
+
+    flushPending();
+    const parts = splitSections(chapter.sections, 2, field, budget, hints);
+    parts.forEach((sections, i) => batches.push({
+      title: parts.length > 1 ? `${chapter.title} (${i + 1}/${parts.length})` : chapter.title,
+      sections,
+      estimatedOutputTokens: outputTokensOf(sections, field, hints)
+    }));
+  }
+  flushPending();
+
+  return batches;
+};
@@ -0,0 +1,40 @@
+import { ThesisSection, ThesisStructure } from "../types";
+
+export interface Chapter {
+  root: ThesisSection;
+  children: ThesisSection[];
+}
+
+// Groups the sections under their level-1 chapter
+export const groupByChapter = (structure: ThesisStructure): Chapter[] => {
+  const chapters: Chapter[] = [];
+  let currentChapter: Chapter | null = null;
+
+  for (const section of structure) {
+    if (section.level === 1) {
+      if (currentChapter) chapters.push(currentChapter);
+      currentChapter = { root: section, children: [] };
+    } else {
+      if (currentChapter) currentChapter.children.push(section);
+    }
+  }
+  if (currentChapter) chapters.push(currentChapter);
+  return chapters;
+};
+
+// Sections that carry the chapter's text: its subsections, or the chapter itself if it has none
+export const getChapterSections = (chapter: Chapter): ThesisSection[] =>
+  chapter.children.length > 0 ? chapter.children : [chapter.root];
+
+// Chapters that contain any of the given sections (as root or subsection), in document order
+export const findChaptersOf = (structure: ThesisStructure, sectionIds: string[]): Chapter[] =>
+  groupByChapter(structure).filter(chapter =>
+    [chapter.root, ...chapter.children].some(s => sectionIds.includes(s.id)));
+
+// Chapters that never get figures or tables (front/back matter, conclusions)
+const VISUALS_SKIP_KEYWORDS = ["摘要", "Abstract", "致谢", "Acknowledgement", "参考", "Reference", "附录", "Appendix", "目录", "总结", "Conclusion", "展望", "Outlook"];
+
+export const isVisualsExemptChapter = (title: string): boolean => {
+  const titleLower = title.toLowerCase();
+  return VISUALS_SKIP_KEYWORDS.some(k => titleLower.includes(k.toLowerCase()));
+};
@@ -0,0 +1,64 @@
+import { LLMProviderId } from "../types";
+import { sleep } from "./retry";
+
+export const DEFAULT_CHAPTER_CONCURRENCY = 3;
+
+export interface SettledResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: unknown;
+}
+
+// Runs `worker` over the items with at most `limit` in flight. Results keep the input
+// order regardless of completion order, and a rejected item does not stop the others.
+export const runPool = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<SettledResult<R>[]> => {
+  const results: SettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await worker(items[index], index) };
+      } catch (error) {
+        results[index] = { ok: false, error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+};
+
+// --- Per-provider rate limit ---
+
+const WINDOW_MS = 60000;
+// Start times of recent requests, per provider (sliding one-minute window)
+const requestStarts = new Map<LLMProviderId, number[]>();
+
+// Waits until the provider has a free slot in the current minute and claims it.
+// Concurrent chapter workers share the same window, so the limit holds across the pool.
+export const acquireRateSlot = async (
+  provider: LLMProviderId,
+  requestsPerMinute: number | undefined,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!requestsPerMinute || requestsPerMinute <= 0) return;
+
+  while (true) {
+    const now = Date.now();
+    const starts = (requestStarts.get(provider) || []).filter(t => now - t < WINDOW_MS);
+    if (starts.length < requestsPerMinute) {
+      starts.push(now);
+      requestStarts.set(provider, starts);
+      return;
+    }
+    requestStarts.set(provider, starts);
+    await sleep(starts[0] + WINDOW_MS - now + 10, signal);
+  }
+};
@@ -0,0 +1,75 @@
+import { ApiConfig } from "../types";
+import { getProvider, resolveProviderId } from "./providers";
+import { LLMError, LLMErrorKind, toLLMError } from "./llmErrors";
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs?: number;
+  // undefined when it could not be determined (no model listing and the call failed)
+  modelAvailable?: boolean;
+  // The model answered the JSON-mode request with bare, parseable JSON
+  jsonMode?: boolean;
+  // Models listed by the endpoint, when it supports listing
+  models?: string[];
+  error?: string;
+  errorKind?: LLMErrorKind;
+}
+
+// Model IDs from the endpoint's `/models` listing; undefined when the provider has none
+export const fetchModelList = async (config: ApiConfig): Promise<string[] | undefined> => {
+  const provider = getProvider(resolveProviderId(config));
+  if (!provider.listModels) return undefined;
+  const models = await provider.listModels(config);
+  return [...new Set(models)].sort();
+};
+
+const PING_SYSTEM_PROMPT = 'You are a connection test. Reply with exactly this JSON object and nothing else: {"ok": true}';
+
+// One minimal JSON-mode call, bypassing retry, cache and transcript recording
+export const testConnection = async (config: ApiConfig): Promise<ConnectionTestResult> => {
+  const provider = getProvider(resolveProviderId(config));
+  const model = config.modelName || provider.defaultModel;
+
+  let models: string[] | undefined;
+  try {
+    models = await fetchModelList(config);
+  } catch (e) {
+    // Many proxies do not implement /models; the chat call below is the real test
+    console.warn("Model listing failed", e);
+  }
+
+  const start = performance.now();
+  try {
+    const response = await provider.call({
+      systemPrompt: PING_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: 'ping' }],
+      jsonMode: true,
+      temperature: 0
+    }, config);
+    const latencyMs = Math.round(performance.now() - start);
+
+    let jsonMode = false;
+    try {
+      jsonMode = typeof JSON.parse(response.text.trim()) === 'object';
+    } catch (e) {}
+
+    return {
+      ok: true,
+      latencyMs,
+      modelAvailable: models ? models.includes(model) : true,
+      jsonMode,
+      models
+    };
+  } catch (e: any) {
+    // Unrecognised errors are still reported, just without a kind
+    const error = toLLMError(e);
+    return {
+      ok: false,
+      latencyMs: Math.round(performance.now() - start),
+      modelAvailable: models ? models.includes(model) : undefined,
+      models,
+      error: error?.message || String(error),
+      errorKind: error instanceof LLMError ? error.kind : undefined
+    };
+  }
+};
@@ -0,0 +1,120 @@
+import { GapMode, GapPolicy, ThesisSection, ThesisStructure } from "../types";
+import { Chapter, groupByChapter, getChapterSections, isVisualsExemptChapter } from "./chapters";
+
+// The Chief Editor's gap check: which sections count as missing, the text around them that
+// filled-in sections have to connect to, and the report of what was found and filled.
+
+export const GAP_MODES: GapMode[] = ['chapter', 'section', 'minLength'];
+
+export const GAP_MODE_LABELS: Record<GapMode, string> = {
+  chapter: '整章缺失',
+  section: '逐小节',
+  minLength: '低于最小长度'
+};
+
+export const DEFAULT_GAP_POLICY: GapPolicy = { mode: 'section', minLength: 300 };
+
+export const resolveGapPolicy = (policy?: Partial<GapPolicy>): GapPolicy => ({
+  ...DEFAULT_GAP_POLICY,
+  ...policy,
+  minLength: Math.max(1, Math.floor(policy?.minLength ?? DEFAULT_GAP_POLICY.minLength!))
+});
+
+export type GapField = 'content' | 'visuals';
+
+export interface SectionGap {
+  sectionId: string;
+  title: string;
+  chapterTitle: string;
+  field: GapField;
+  // Characters of text the section had when the gap was found (0 = empty)
+  length: number;
+}
+
+const textLength = (section: ThesisSection, field: GapField): number => section[field]?.trim().length || 0;
+
+const isGap = (section: ThesisSection, field: GapField, policy: GapPolicy): boolean =>
+  field === 'content' && policy.mode === 'minLength'
+    ? textLength(section, field) < policy.minLength!
+    : textLength(section, field) === 0;
+
+// Sections of a chapter the Chief Editor has to fill. Not every section needs a figure, so
+// visuals always use the whole-chapter rule; the policy applies to body text.
+export const findChapterGaps = (chapter: Chapter, field: GapField, policy: GapPolicy): ThesisSection[] => {
+  const sections = getChapterSections(chapter);
+  if (field === 'visuals' && isVisualsExemptChapter(chapter.root.title)) return [];
+  if (field === 'visuals' || policy.mode === 'chapter') {
+    return sections.every(s => textLength(s, field) === 0) ? sections : [];
+  }
+  return sections.filter(s => isGap(s, field, policy));
+};
+
+export const findGaps = (structure: ThesisStructure, field: GapField, policy: GapPolicy): SectionGap[] =>
+  groupByChapter(structure).flatMap(chapter => findChapterGaps(chapter, field, policy).map(section => ({
+    sectionId: section.id,
+    title: section.title,
+    chapterTitle: chapter.root.title,
+    field,
+    length: textLength(section, field)
+  })));
+
+const NEIGHBOUR_EXCERPT_CHARS = 400;
+
+// Most prompt tokens the neighbour context adds per gap: two excerpts plus their headings,
+// counting a token per character as for Chinese text
+export const NEIGHBOUR_CONTEXT_TOKENS_PER_GAP = 2 * (NEIGHBOUR_EXCERPT_CHARS + 40);
+
+// End of the section before and start of the section after every gap (within its chapter and
+// skipping other gaps), so the filled-in text continues the one before and leads into the next
+export const buildNeighbourContext = (structure: ThesisStructure, gapIds: string[]): string => {
+  const excerpts = new Map<number, string>();
+  const isNeighbour = (s: ThesisSection) => !gapIds.includes(s.id) && !!s.content?.trim();
+
+  structure.forEach((section, i) => {
+    if (!gapIds.includes(section.id)) return;
+    let before = i - 1;
+    while (before >= 0 && structure[before].level !== 1 && !isNeighbour(structure[before])) before--;
+    if (before >= 0 && isNeighbour(structure[before]) && !excerpts.has(before)) {
+      const text = structure[before].content!.trim();
+      excerpts.set(before, `#### ${structure[before].title.replace(/^#+\s*/, '')} (前文结尾)\n${text.length > NEIGHBOUR_EXCERPT_CHARS ? '…' + text.slice(-NEIGHBOUR_EXCERPT_CHARS) : text}`);
+    }
+    let after = i + 1;
+    while (after < structure.length && structure[after].level !== 1 && !isNeighbour(structure[after])) after++;
+    if (after < structure.length && structure[after].level !== 1 && !excerpts.has(after)) {
+      const text = structure[after].content!.trim();
+      excerpts.set(after, `#### ${structure[after].title.replace(/^#+\s*/, '')} (后文开头)\n${text.length > NEIGHBOUR_EXCERPT_CHARS ? text.slice(0, NEIGHBOUR_EXCERPT_CHARS) + '…' : text}`);
+    }
+  });
+
+  return Array.from(excerpts.keys()).sort((a, b) => a - b).map(i => excerpts.get(i)!).join('\n\n');
+};
+
+const FIELD_LABELS: Record<GapField, string> = { content: '正文', visuals: '图表' };
+
+// Markdown report of a Chief Editor run, kept as the step's snapshot
+export const renderGapReport = (gaps: SectionGap[], structure: ThesisStructure, policy: GapPolicy): string => {
+  const rule = policy.mode === 'minLength' ? `${GAP_MODE_LABELS.minLength} (${policy.minLength} 字)` : GAP_MODE_LABELS[policy.mode];
+  let md = `# 查漏补缺报告\n\n正文缺口规则: ${rule}；图表按整章缺失检查。\n\n`;
+  if (gaps.length === 0) return md + "未发现缺口，内容完整。\n";
+
+  const rows = gaps.map(gap => {
+    const section = structure.find(s => s.id === gap.sectionId);
+    const after = section ? textLength(section, gap.field) : 0;
+    const filled = !!section && after > gap.length && !isGap(section, gap.field, policy);
+    return { gap, after, filled };
+  });
+  const filledCount = rows.filter(r => r.filled).length;
+  md += `发现 ${gaps.length} 处缺口，已补全 ${filledCount} 处。\n\n`;
+
+  md += `| 章节 | 小节 | 类型 | 问题 | 补全前 | 补全后 | 结果 |\n|---|---|---|---|---|---|---|\n`;
+  rows.forEach(({ gap, after, filled }) => {
+    const problem = gap.length === 0 ? '缺失' : '过短';
+    md += `| ${gap.chapterTitle.replace(/^#+\s*/, '')} | ${gap.title.replace(/^#+\s*/, '')} | ${FIELD_LABELS[gap.field]} | ${problem} | ${gap.length} 字 | ${after} 字 | ${filled ? '已补全' : '仍有缺口'} |\n`;
+  });
+
+  const open = rows.filter(r => !r.filled);
+  if (open.length > 0) {
+    md += `\n## 仍有缺口的小节\n\n${open.map(({ gap }) => `- ${gap.title.replace(/^#+\s*/, '')} (${FIELD_LABELS[gap.field]})`).join('\n')}\n`;
+  }
+  return md;
+};
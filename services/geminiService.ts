@@ -1,49 +1,23 @@
-import { GoogleGenAI } from "@google/genai";
-import { UserInput, ThesisSection, ThesisStructure, ApiConfig, Agent, ThesisStyleConfig } from "../types";
-
-// Fallback prompts for Chief Editor (Fixer)
-const FIXER_PLANNER_PROMPT = `
-### 角色
-你是一位**学术内容撰写专家** (隶属于总编审团队)。
-
-### 任务
-你负责撰写本章缺失的正文内容。
-
-### 原则
-1. **纯净正文**：输出的内容**绝对不要**包含章节标题本身。
-2. **纯文字**：严禁生成图表、表格或图片占位符。
-3. **数学公式**：**必须**使用 LaTeX 格式。行内公式用单美元符号 $...$，独立公式用双美元符号 $$...$$。
-4. **完整性**：为传入的所有小节 ID 撰写内容。
-5. **深度**：内容必须包含数学公式推导、理论证明和详尽的数据分析。
-6. **格式**：输出 JSON，Key 为 ID，Value 为 Markdown 正文。
-
-### 步骤
-1. 阅读章节标题和小节 ID。
-2. 为每个 ID 撰写对应的学术正文（不带标题）。
-3. 合并为一个 JSON 对象返回。
-`;
-
-const FIXER_VISUALS_PROMPT = `
-### 角色
-你是一位**数据可视化专家** (隶属于总编审团队)。
-
-### 任务
-你负责为本章补充缺失的图表。
-
-### 原则
-1. **数量**：为当前章节设计丰富的数据表格和图表说明。
-2. **格式**：Markdown 表格。
-3. **图注与描述**：
-   - 使用 "> [图 x-y] 图表详细描述" 的格式。
-   - **必须**在图表后附带详细的分析描述文本。
-4. **纯净性**：严禁生成正文段落和标题，只返回图表相关内容。
-5. **范围**：不处理总结、摘要、参考文献等章节。
-
-### 步骤
-1. 扫描章节内的小节。
-2. 重新审视本章，为需要数据支撑的部分设计图表。
-3. 返回 JSON。
-`;
+import { UserInput, ThesisSection, ThesisStructure, ApiConfig, ChatMessage, Agent, AgentLLMOverrides, ThesisStyleConfig, RunHooks, LLMUsageEvent, CacheMode, MergeMode, ExtraFieldSpec, SectionReview, ChapterMemory, GapPolicy } from "../types";
+import { parsePartialJsonObject } from "../utils/partialJson";
+import { estimateTokens } from "../utils/tokenEstimator";
+import { getProvider, resolveProviderId } from "./providers";
+import { LLMError, CancelledError, PartialRunError, isMalformedOutputError, isCancelledError, throwIfCancelled } from "./llmErrors";
+import { withRetry, DEFAULT_RETRY_POLICY, RetryAttemptInfo } from "./retry";
+import { computeCacheKey, getCachedResponse, putCachedResponse, deleteCacheEntry, loadCacheSettings, CacheKeyParts } from "./llmCache";
+import { recordExchange } from "./transcript";
+import { runPool, SettledResult, acquireRateSlot, DEFAULT_CHAPTER_CONCURRENCY } from "./concurrency";
+import { PlannedBatch, computeBatchBudget, planBatches } from "./batchPlanner";
+import { getProfileName, loadProfileStore, resolveFallbackConfigs, toProfileConfig } from "./apiProfiles";
+import { AGENT_OUTPUT_SCHEMAS, AgentOutputKind, validateJson } from "./outputSchemas";
+import { getOutputField } from "./agentKinds";
+import { SectionFieldTarget, readSectionField, writeSectionField, mergeFieldText, hasAnnotation, renderExtraFieldsMarkdown } from "./sectionFields";
+import { BUILT_IN_PROMPTS } from "./builtInPrompts";
+import { DEFAULT_USER_TEMPLATES, renderUserPrompt } from "./userPromptTemplates";
+import { resolveReviewPolicy, computeOverallScore, getLatestReview, buildRevisionInstruction, renderReviewReport } from "./sectionReviews";
+import { Chapter, groupByChapter, getChapterSections, findChaptersOf, isVisualsExemptChapter } from "./chapters";
+import { buildMemoryContext, createChapterMemory, isSummaryChapter, needsMemoryUpdate, resolveMemoryBudget } from "./thesisMemory";
+import { SectionGap, GAP_MODE_LABELS, resolveGapPolicy, findGaps, findChapterGaps, buildNeighbourContext, renderGapReport, NEIGHBOUR_CONTEXT_TOKENS_PER_GAP } from "./gapFilling";
 
 const REFINE_CHAT_SYSTEM_PROMPT = `
 ### 角色设定
@@ -173,151 +147,396 @@ const extractJson = (text: string): any => {
     } catch(e) {}
   }
 
-  // Explicitly throw error to trigger retry logic
-  throw new Error(`Fatal JSON Error. Raw Text Snippet: ${text.substring(0, 100)}...`);
+  // Explicitly throw a malformed-output error (repair round-trip first, then batch splitting)
+  throw new LLMError('malformed', `Fatal JSON Error. Raw Text Snippet: ${text.substring(0, 100)}...`);
 };
 
+// Per-call options for callLLM. When onChunk is set the response is streamed
+// by the provider adapter (SSE, generateContentStream, ...).
+interface LLMCallOptions {
+  onChunk?: (delta: string, fullText: string) => void;
+  // Called before each retry of a quota/transient failure
+  onRetry?: (info: RetryAttemptInfo) => void;
+  // Called once with the token usage of the successful attempt
+  onUsage?: (usage: LLMUsageEvent) => void;
+  cacheMode?: CacheMode;
+  onCacheHit?: (model: string) => void;
+  signal?: AbortSignal;
+  // Called when a config of the fallback chain gives up and the next one takes over
+  onFallback?: (info: { from: string; to: string; error: LLMError }) => void;
+  // Called with the profile / model that produced the returned answer
+  onSource?: (source: string) => void;
+  // Only answers passing this check are cached, so an invalid answer is not replayed on every
+  // rerun; a cached answer failing it (stored before the check existed) is evicted and re-requested
+  isCacheable?: (text: string) => boolean;
+}
+
+// Without settings the app falls back to Gemini with the build-time env key
+const DEFAULT_API_CONFIG: ApiConfig = { provider: 'gemini', baseUrl: '', apiKey: '', modelName: '' };
+
+// The global profile first, then the global fallbacks: the chain behind an agent's own endpoint
+const globalFallbacks = (config: ApiConfig): string[] | undefined =>
+  config.profileId
+    ? [config.profileId, ...(config.fallbackProfileIds || []).filter(id => id !== config.profileId)]
+    : config.fallbackProfileIds;
+
+// Layers an agent's overrides over the global config. Blank override fields inherit.
+// An override `profileId` runs the agent on that saved profile (keeping the run-wide concurrency and
+// memory settings); profiles missing from this browser are ignored.
+// When the override switches provider, endpoint and key are not inherited from a different provider.
+// Either way the agent's endpoint is no longer the global profile: log lines name the agent's
+// profile or provider instead, and the global profile is its first fallback, ahead of the global fallbacks.
+export const resolveAgentApiConfig = (base: ApiConfig | undefined, overrides?: AgentLLMOverrides): ApiConfig | undefined => {
+  if (!overrides) return base;
+  const { profileId, ...defined } = Object.fromEntries(
+    Object.entries(overrides).filter(([, v]) => v !== undefined && v !== '')
+  ) as AgentLLMOverrides;
+
+  const globalConfig = base || DEFAULT_API_CONFIG;
+  const profile = profileId && profileId !== globalConfig.profileId
+    ? loadProfileStore().profiles.find(p => p.id === profileId)
+    : undefined;
+  if (!profile && Object.keys(defined).length === 0) return base;
+
+  const baseConfig: ApiConfig = profile ? {
+    ...globalConfig,
+    ...toProfileConfig(profile),
+    concurrency: globalConfig.concurrency,
+    memoryTokenBudget: globalConfig.memoryTokenBudget,
+    fallbackProfileIds: globalFallbacks(globalConfig)
+  } : globalConfig;
+  const switchesProvider = !!defined.provider && defined.provider !== resolveProviderId(baseConfig);
+  const ownEndpoint = switchesProvider
+    || (!!defined.baseUrl && defined.baseUrl !== baseConfig.baseUrl)
+    || (!!defined.apiKey && defined.apiKey !== baseConfig.apiKey);
+  const detached: Partial<ApiConfig> = ownEndpoint ? { profileId: undefined, fallbackProfileIds: globalFallbacks(globalConfig) } : {};
+
+  if (switchesProvider) {
+    const provider = getProvider(defined.provider!);
+    return {
+      ...baseConfig,
+      baseUrl: provider.defaultBaseUrl,
+      apiKey: '',
+      modelName: provider.defaultModel,
+      ...detached,
+      ...defined
+    };
+  }
+  return { ...baseConfig, ...detached, ...defined };
+};
+
+// "Profile name · model" (or "provider · model" for configs that are not saved profiles)
+const describeConfig = (config: ApiConfig): string => {
+  const provider = getProvider(resolveProviderId(config));
+  return `${getProfileName(config.profileId) || provider.label} · ${config.modelName || provider.defaultModel}`;
+};
+
+// Errors after which the next config of the fallback chain is tried. Malformed output is the
+// model's fault, not the endpoint's, and is handled by repair / batch splitting instead.
+const shouldFallBack = (e: unknown): e is LLMError =>
+  e instanceof LLMError && (e.kind === 'quota' || e.kind === 'auth' || e.kind === 'transient');
+
+// `prompt` is either a single user message or a full conversation (multi-turn chat, repair follow-ups)
 const callLLM = async (
   systemPrompt: string, 
-  userPrompt: string, 
+  prompt: string | ChatMessage[], 
   config?: ApiConfig,
-  jsonMode: boolean = true
+  jsonMode: boolean = true,
+  options: LLMCallOptions = {}
 ): Promise<string> => {
-  
-  // 1. Custom OpenAI-Compatible API
-  if (config && config.useCustom && config.apiKey && config.baseUrl) {
+  throwIfCancelled(options.signal);
+  const primaryConfig = config || DEFAULT_API_CONFIG;
+
+  const messages: ChatMessage[] = typeof prompt === 'string'
+    ? [{ role: "user", content: prompt }]
+    : prompt;
+
+  // **FALLBACK CHAIN**: the primary config first, then the saved profiles in order.
+  // Replay runs are meant to be offline and deterministic, so a transcript miss never reaches a real endpoint.
+  const chain = resolveProviderId(primaryConfig) === 'replay'
+    ? [primaryConfig]
+    : [primaryConfig, ...resolveFallbackConfigs(primaryConfig)];
+  for (let i = 0; ; i++) {
+    const hasFallback = i < chain.length - 1;
     try {
-      let baseUrl = config.baseUrl.trim().replace(/\/+$/, "");
-      let url = baseUrl;
-      if (!url.endsWith("/chat/completions")) {
-        url = `${url}/chat/completions`;
-      }
+      const text = await callWithConfig(systemPrompt, messages, chain[i], jsonMode, options, hasFallback);
+      options.onSource?.(describeConfig(chain[i]));
+      return text;
+    } catch (e: any) {
+      if (!hasFallback || !shouldFallBack(e)) throw e;
+      options.onFallback?.({ from: describeConfig(chain[i]), to: describeConfig(chain[i + 1]), error: e });
+    }
+  }
+};
 
-      console.log(`Using Custom API: ${config.modelName} at ${url}`);
-      
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${config.apiKey}`
-      };
+// One config of the chain: cache lookup, rate limit, retries, recording and usage reporting
+const callWithConfig = async (
+  systemPrompt: string,
+  messages: ChatMessage[],
+  activeConfig: ApiConfig,
+  jsonMode: boolean,
+  options: LLMCallOptions,
+  hasFallback: boolean
+): Promise<string> => {
+  const provider = getProvider(resolveProviderId(activeConfig));
 
-      const body = {
-        model: config.modelName,
-        messages: [
-          { role: "system", content: systemPrompt },
-          // If userPrompt is actually a stringified JSON history (hack for simple call), parse it?
-          // But our main callLLM signature assumes userPrompt is a string.
-          // For Chat, we will bypass this function slightly or adapt it.
-          // **ADAPTATION**: If userPrompt looks like a chat history array, use it directly.
-          ...(isJsonString(userPrompt) ? JSON.parse(userPrompt) : [{ role: "user", content: userPrompt }])
-        ],
-        temperature: 0.7, // Higher temp for creative brainstorming
-      };
+  const policy = {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: activeConfig.maxAttempts || DEFAULT_RETRY_POLICY.maxAttempts,
+    // With a fallback available, a quota error moves on immediately instead of waiting it out
+    ...(hasFallback ? { retryKinds: ['transient' as const] } : {})
+  };
+  const temperature = activeConfig.temperature ?? 0.7; // Higher temp for creative brainstorming
+  const model = activeConfig.modelName || provider.defaultModel;
+
+  // **RESPONSE CACHE**: identical requests are answered from IndexedDB instead of being billed again
+  const cacheMode = options.cacheMode || 'default';
+  const useCache = cacheMode !== 'bypass' && provider.cacheable !== false
+    && loadCacheSettings().enabled && typeof indexedDB !== 'undefined';
+  const cacheParts: CacheKeyParts = {
+    provider: provider.id,
+    model,
+    baseUrl: activeConfig.baseUrl,
+    systemPrompt,
+    messages,
+    jsonMode,
+    temperature,
+    maxTokens: activeConfig.maxTokens
+  };
+  let cacheKey: string | undefined;
+  if (useCache) {
+    try {
+      cacheKey = await computeCacheKey(cacheParts);
+      if (cacheMode === 'default') {
+        let cached = await getCachedResponse(cacheKey);
+        if (cached && options.isCacheable && !options.isCacheable(cleanText(cached.text))) {
+          await deleteCacheEntry(cacheKey);
+          cached = undefined;
+        }
+        if (cached) {
+          options.onCacheHit?.(model);
+          await recordExchange({ provider: provider.id, model, systemPrompt, messages, jsonMode, response: cached.text, usage: cached.usage, fromCache: true });
+          return cleanText(cached.text);
+        }
+      }
+    } catch (e) {
+      console.warn("Response cache unavailable, calling the model directly", e);
+    }
+  }
 
-      // 15-minute timeout for reasoning models
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 900000); 
+  try {
+    const response = await withRetry(async () => {
+      await acquireRateSlot(provider.id, activeConfig.requestsPerMinute, options.signal);
+      return provider.call({
+        systemPrompt,
+        messages,
+        jsonMode,
+        temperature,
+        maxTokens: activeConfig.maxTokens,
+        onChunk: options.onChunk,
+        signal: options.signal
+      }, activeConfig);
+    }, policy, options.onRetry, options.signal);
+
+    await recordExchange({ provider: provider.id, model, systemPrompt, messages, jsonMode, response: response.text, usage: response.usage, fromCache: false });
+
+    if (cacheKey && (!options.isCacheable || options.isCacheable(cleanText(response.text)))) {
+      putCachedResponse(cacheKey, cacheParts, response.text, response.usage)
+        .catch(e => console.warn("Failed to store response in cache", e));
+    }
 
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(body),
-        signal: controller.signal
+    if (options.onUsage) {
+      // Fall back to the local estimator when the provider/proxy reports nothing
+      const usage = response.usage || {
+        inputTokens: estimateTokens(systemPrompt + messages.map(m => m.content).join("\n")),
+        outputTokens: estimateTokens(response.text)
+      };
+      options.onUsage({
+        provider: provider.id,
+        model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        estimated: !response.usage
       });
+    }
+    return cleanText(response.text);
+  } catch (e: any) {
+    if (!isCancelledError(e)) console.error(`${provider.label} Call Failed`, e);
+    throw e;
+  }
+};
 
-      clearTimeout(timeoutId);
+const ERROR_KIND_LABELS: Record<LLMError['kind'], string> = {
+  auth: '认证/配置错误',
+  quota: '配额限制',
+  transient: '临时故障',
+  malformed: '输出格式错误'
+};
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        if (response.status === 404) throw new Error("404 Not Found. Check Base URL.");
-        if (response.status === 401) throw new Error("401 Unauthorized. Check API Key.");
-        throw new Error(`Custom API Error (${response.status}): ${errorText}`);
+// Builds callLLM options that forward partial section text, token usage and retry attempts to the UI.
+// Parsing the whole buffer on every chunk is wasteful, so section updates are throttled.
+const createCallOptions = (
+  hooks: RunHooks | undefined,
+  field: 'content' | 'visuals',
+  sectionIds: string[],
+  chapter?: string
+): LLMCallOptions => {
+  if (!hooks) return {};
+
+  const { cacheMode, signal } = hooks;
+  const onCacheHit = hooks.onLog
+    ? (model: string) => hooks.onLog!(`缓存命中 (${model}${chapter ? ` · ${chapter}` : ''})，未重复计费。`, 'info')
+    : undefined;
+
+  const onUsage = hooks.onUsage
+    ? (usage: LLMUsageEvent) => hooks.onUsage!({ ...usage, chapter })
+    : undefined;
+
+  const onRetry = hooks.onLog
+    ? (info: RetryAttemptInfo) => hooks.onLog!(
+        `请求失败 (${ERROR_KIND_LABELS[info.error.kind]}): ${info.error.message.substring(0, 120)} — ${(info.delayMs / 1000).toFixed(1)}s 后重试 (第 ${info.attempt + 1}/${info.maxAttempts} 次)`,
+        'error'
+      )
+    : undefined;
+
+  const onFallback = hooks.onLog
+    ? (info: { from: string; to: string; error: LLMError }) => hooks.onLog!(
+        `${info.from} 失败 (${ERROR_KIND_LABELS[info.error.kind]})，切换到备用配置 ${info.to}${chapter ? ` · ${chapter}` : ''}`,
+        'error'
+      )
+    : undefined;
+
+  // Records which profile produced the sections of this call
+  const onSource = hooks.onLog && chapter
+    ? (source: string) => hooks.onLog!(`${chapter}: ${sectionIds.length > 0 ? `${sectionIds.length} 个小节` : '结果'}由 ${source} 生成`, 'info')
+    : undefined;
+
+  if (!hooks.onSectionDelta && !hooks.onTokens) return { onRetry, onUsage, cacheMode, onCacheHit, signal, onFallback, onSource };
+
+  let lastEmit = 0;
+  return {
+    onRetry,
+    onUsage,
+    cacheMode,
+    onCacheHit,
+    signal,
+    onFallback,
+    onSource,
+    onChunk: (delta, fullText) => {
+      hooks.onTokens?.(estimateTokens(delta));
+
+      const now = Date.now();
+      if (now - lastEmit < 150) return;
+      lastEmit = now;
+
+      if (hooks.onSectionDelta && sectionIds.length > 0) {
+        const partial = parsePartialJsonObject(fullText);
+        for (const id of sectionIds) {
+          if (partial[id]) hooks.onSectionDelta(id, field, partial[id]);
+        }
       }
+    }
+  };
+};
 
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-      if (!content) throw new Error("Custom API returned empty content");
-      return cleanText(content);
+// How an agent's JSON answer is checked before it is applied
+interface OutputValidation {
+  kind: AgentOutputKind;
+  // Chapter / step name used in log messages
+  label: string;
+  onLog?: RunHooks['onLog'];
+  // Reshapes the parsed JSON before validation (e.g. a bare sections array)
+  normalize?: (parsed: any) => any;
+  // Checks the schema cannot express (e.g. unique IDs)
+  check?: (data: any) => string[];
+}
 
-    } catch (e: any) {
-      console.error("Custom API Call Failed", e);
-      if (e.name === 'AbortError') {
-          throw new Error("Request timed out (>15 mins). The model took too long to think.");
-      }
-      if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
-         throw new Error("Network Error: Could not connect to Custom API. Check CORS settings or Base URL.");
-      }
-      throw e;
-    }
-  }
+const MAX_REPORTED_ERRORS = 20;
 
-  // 2. Default Google Gemini API
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API_KEY is missing. Please configure Custom API in settings.");
-  
-  const ai = new GoogleGenAI({ apiKey });
-  
+const validateOutput = (text: string, validation: OutputValidation): { data: any; errors: string[] } => {
+  let parsed: any;
   try {
-    // For Chat, we need a slightly different call structure if using Gemini SDK directly
-    // But to keep it simple, we reuse generateContent with history in 'contents' if possible
-    // OR we just use the simple generateContent for now, constructing the prompt manually.
-    
-    // Construct full prompt from history if userPrompt is JSON history
-    let finalPrompt = userPrompt;
-    let history: {role: string, content: string}[] = [];
-    if (isJsonString(userPrompt)) {
-        history = JSON.parse(userPrompt);
-        // Convert history to Gemini format string or chat session
-        // For simplicity in this helper, we'll just concat for now if it's not a chat session object
-        // Actually, let's just stick to the Custom API style for chat mostly, or handle single turn here.
-        // Given constraints, let's assume Custom API is preferred for Chat.
-        // If Gemini, we'll just send the last message + context.
-        const lastMsg = history[history.length - 1].content;
-        finalPrompt = `Previous Context:\n${JSON.stringify(history.slice(0, -1))}\n\nCurrent Request: ${lastMsg}`;
-    }
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: finalPrompt,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: jsonMode ? "application/json" : "text/plain",
-        temperature: 0.7
-      }
-    });
-    return cleanText(response.text);
-  } catch (e: any) {
-     if (e.status === 429 || (e.message && e.message.includes('429'))) {
-         throw new Error("Gemini API Quota Exceeded (429). Please switch to Custom API in settings.");
-     }
-     throw e;
+    parsed = extractJson(text);
+  } catch (e) {
+    return { data: null, errors: ['$: output is not valid JSON (could not be parsed)'] };
   }
+  const data = validation.normalize ? validation.normalize(parsed) : parsed;
+  const errors = validateJson(data, AGENT_OUTPUT_SCHEMAS[validation.kind]);
+  if (errors.length === 0 && validation.check) errors.push(...validation.check(data));
+  return { data, errors };
 };
 
-const isJsonString = (str: string) => {
-    try {
-        const o = JSON.parse(str);
-        return (o && typeof o === "object");
-    } catch (e) { return false; }
+// Calls the model and validates its JSON answer against the agent's output schema.
+// An invalid answer gets one targeted "repair" follow-up that quotes the validator errors;
+// if the repaired answer is still invalid a malformed LLMError is thrown (→ batch splitting).
+const callStructuredLLM = async (
+  systemPrompt: string,
+  userPrompt: string,
+  config: ApiConfig | undefined,
+  options: LLMCallOptions,
+  validation: OutputValidation
+): Promise<any> => {
+  options = { ...options, isCacheable: text => validateOutput(text, validation).errors.length === 0 };
+  const responseText = await callLLM(systemPrompt, userPrompt, config, true, options);
+  const first = validateOutput(responseText, validation);
+  if (first.errors.length === 0) return first.data;
+
+  console.warn(`Output of ${validation.label} failed validation`, first.errors);
+  validation.onLog?.(`${validation.label}: 输出未通过结构校验 (${first.errors.length} 处错误)，正在请求模型修复...`, 'error');
+
+  const repairPrompt = `
+    ### 输出校验失败
+    你上一次的输出未通过 JSON 结构校验，错误如下：
+    ${first.errors.slice(0, MAX_REPORTED_ERRORS).map(e => `- ${e}`).join('\n    ')}
+
+    ### 要求
+    1. 针对上述错误修正你的输出，保留所有已经正确的内容。
+    2. 仅返回完整、合法的 JSON，不要附加任何解释或 Markdown 代码块之外的文字。
+  `;
+  const history: ChatMessage[] = [
+    { role: "user", content: userPrompt },
+    { role: "assistant", content: responseText },
+    { role: "user", content: repairPrompt }
+  ];
+  const repairedText = await callLLM(systemPrompt, history, config, true, options);
+  const repaired = validateOutput(repairedText, validation);
+  if (repaired.errors.length === 0) {
+    validation.onLog?.(`${validation.label}: 修复成功。`, 'success');
+    return repaired.data;
+  }
+
+  throw new LLMError('malformed', `Output failed schema validation after repair: ${repaired.errors.slice(0, 5).join('; ')}`);
 };
 
+// IDs of the given sections that have no usable text in a section map response
+const findMissingIds = (sections: ThesisSection[], output: Record<string, unknown>): string[] =>
+  sections
+    .filter(s => typeof output[s.id] !== 'string' || (output[s.id] as string).trim() === '')
+    .map(s => s.id);
+
+// Variables every user-prompt template can use
+const inputVariables = (userInput: UserInput) => ({
+  topic: userInput.topic,
+  field: userInput.field,
+  specificFocus: userInput.specificFocus
+});
+
 // ** NEW: Interactive Chat Refinement Agent **
 export const runRefinementChat = async (
-    history: { role: string; content: string }[],
+    history: ChatMessage[],
     apiConfig?: ApiConfig
 ): Promise<{ text: string; finished: boolean; data?: any }> => {
     
-    // We pass the whole history to the LLM
-    // Hack: We serialize history to pass it through our generic callLLM 'userPrompt' argument
-    // The callLLM function has been patched above to detect JSON array string and use it as messages.
-    const historyPayload = JSON.stringify(history);
-
     try {
+        // We pass the whole history to the LLM as a real multi-turn conversation.
         // We set jsonMode to FALSE because we want natural conversation mostly.
         // The prompt instructs the LLM to output JSON only at the end.
-        const responseText = await callLLM(REFINE_CHAT_SYSTEM_PROMPT, historyPayload, apiConfig, false);
+        const responseText = await callLLM(REFINE_CHAT_SYSTEM_PROMPT, history, apiConfig, false);
         
-        // Check for JSON block indicating completion
-        const jsonMatch = extractJson(responseText); // This tries to find JSON in the text
+        // Check for JSON block indicating completion. Ordinary replies contain no JSON,
+        // so a parse failure just means the interview is still going.
+        let jsonMatch: any = null;
+        try { jsonMatch = extractJson(responseText); } catch (e) {}
         
         // Heuristic: If we found a valid JSON object that has 'refinedContext' and 'title', 
         // AND the text explicitly mentions completion or we found the block at the end.
@@ -352,7 +571,9 @@ export const runIdeaRefinementAgent = async (
 export const runArchitectAgent = async (
   userInput: UserInput,
   apiConfig?: ApiConfig,
-  overrideSystemPrompt?: string
+  overrideSystemPrompt?: string,
+  hooks?: RunHooks,
+  userPromptTemplate: string = DEFAULT_USER_TEMPLATES.architect
 ): Promise<ThesisStructure> => {
   const systemPrompt = overrideSystemPrompt || `
     ### 角色
@@ -379,183 +600,297 @@ export const runArchitectAgent = async (
     }
   `;
 
-  const userPrompt = `
-    ### 输入数据
-    - 领域: ${userInput.field}
-    - 主题: ${userInput.topic}
-    - 侧重点 (Context): ${userInput.specificFocus}
-
-    ### 任务步骤
-    1. 分析主题和侧重点。
-    2. 设计一套标准的硕士论文结构（通常 5-7 章）。
-    3. **重点检查**：确保第 3 章及之后的创新点章节，每一章都包含完整的“理论+实验”。不要创建独立的“实验章”。
-    4. 为每一节生成唯一的 ID。
-    5. 返回 JSON 数据。
-  `;
+  const userPrompt = renderUserPrompt(userPromptTemplate, inputVariables(userInput));
 
-  const responseText = await callLLM(systemPrompt, userPrompt, apiConfig, true);
+  // Architect output is a sections array, so only the token counter is streamed
   try {
-      const parsed = extractJson(responseText);
-      let structure: ThesisSection[] = [];
-
-      if (parsed) {
-        if (Array.isArray(parsed)) {
-          structure = parsed;
-        } else if (parsed.sections && Array.isArray(parsed.sections)) {
-          structure = parsed.sections;
-        } else {
-          const keys = Object.keys(parsed);
-          for (const key of keys) {
-            if (Array.isArray(parsed[key]) && parsed[key].length > 0) {
-              if (parsed[key][0].title || parsed[key][0].id) {
-                structure = parsed[key];
-                break;
-              }
-            }
+      const output = await callStructuredLLM(systemPrompt, userPrompt, apiConfig, createCallOptions(hooks, 'content', [], '论文结构'), {
+          kind: 'architect',
+          label: '论文结构',
+          onLog: hooks?.onLog,
+          normalize: normalizeArchitectOutput,
+          check: (data) => {
+              const seen = new Set<string>();
+              const errors: string[] = [];
+              (data.sections as ThesisSection[]).forEach((section, i) => {
+                  if (seen.has(section.id)) errors.push(`$.sections[${i}].id: duplicate id "${section.id}"`);
+                  seen.add(section.id);
+              });
+              return errors;
           }
-        }
-      }
-
-      if (structure.length === 0) throw new Error("No structure found");
-      return structure;
+      });
+      return output.sections as ThesisStructure;
 
   } catch (e) {
-     console.error("Architect Output was:", responseText);
+     if (!isMalformedOutputError(e)) throw e;
+     console.error("Architect output failed validation:", e);
      throw new Error("Architect failed to generate structure. Model output was not valid JSON.");
   }
 };
 
+// Accepts a bare sections array or any key holding a section-like array, and reshapes it into { sections }
+const normalizeArchitectOutput = (parsed: any): any => {
+  if (Array.isArray(parsed)) return { sections: parsed };
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed.sections)) return parsed;
+  for (const key of Object.keys(parsed)) {
+    if (Array.isArray(parsed[key]) && parsed[key].length > 0) {
+      if (parsed[key][0].title || parsed[key][0].id) {
+        return { sections: parsed[key] };
+      }
+    }
+  }
+  return parsed;
+};
+
+const CHAPTER_MEMORY_PROMPT = `
+### 角色
+你是一位细致的**学位论文编辑**，负责为已完成的章节整理备忘，供撰写其他章节的作者参考。
+
+### 任务
+阅读章节正文，提炼后续章节必须保持一致或不应重复的信息:
+1. **contributions**: 本章提出的方法、模型或核心观点 (每条一句话)。
+2. **notation**: 本章定义的符号、缩写和术语，写成 "符号: 含义" (公式使用 LaTeX)。
+3. **datasets**: 使用的数据集、实验设置或评价指标。
+4. **results**: 得出的主要结论或实验结果 (保留关键数值)。
+
+### 原则
+- 只记录正文中实际出现的内容，不要推测或补充。
+- 每条尽量简短 (不超过 40 字)，每类最多 8 条；没有的类别返回空数组。
+`;
+
+// Summarises a written chapter into its thesis memory (stored on the chapter's level-1 section)
+const summarizeChapter = async (chapter: Chapter, userInput: UserInput, apiConfig: ApiConfig | undefined, hooks?: RunHooks): Promise<void> => {
+  const title = chapter.root.title;
+  const body = getChapterSections(chapter).map(s => `#### ${s.title}\n${s.content}`).join('\n\n');
+  const userPrompt = `### 上下文
+主题: ${userInput.topic}
+
+### 章节: ${title}
+${body}
+
+### 输出
+返回 JSON 对象: { "contributions": [], "notation": [], "datasets": [], "results": [] }
+`;
+  const notes: Pick<ChapterMemory, 'contributions' | 'notation' | 'datasets' | 'results'> = await callStructuredLLM(
+    CHAPTER_MEMORY_PROMPT, userPrompt, apiConfig, createCallOptions(hooks, 'content', [], title), {
+      kind: 'chapterMemory',
+      label: `${title} (章节记忆)`,
+      onLog: hooks?.onLog
+    });
+  chapter.root.memory = createChapterMemory(chapter, notes);
+};
+
+// Re-summarises the given chapters where their text changed. The memory only assists later
+// prompts, so a failed summary is logged and the chapter keeps its previous one.
+const updateChapterMemories = async (chapters: Chapter[], userInput: UserInput, apiConfig: ApiConfig | undefined, hooks?: RunHooks) => {
+  for (const chapter of chapters.filter(needsMemoryUpdate)) {
+    throwIfCancelled(hooks?.signal);
+    try {
+      await summarizeChapter(chapter, userInput, apiConfig, hooks);
+    } catch (e: any) {
+      if (isCancelledError(e)) throw e;
+      console.error(`Chapter memory failed for ${chapter.root.title}`, e);
+      hooks?.onLog?.(`${chapter.root.title}: 章节记忆更新失败 - ${e.message}`, 'error');
+    }
+  }
+};
+
+// **THESIS MEMORY**: brings the chapter summaries up to date with the current text. Runs after
+// every step that changes body text; chapters whose text is unchanged cost nothing.
+export const refreshThesisMemory = async (
+  currentStructure: ThesisStructure,
+  userInput: UserInput,
+  apiConfig?: ApiConfig,
+  hooks?: RunHooks
+): Promise<ThesisStructure> => {
+  if (resolveMemoryBudget(apiConfig) === 0 || !groupByChapter(currentStructure).some(needsMemoryUpdate)) return currentStructure;
+
+  const newStructure = JSON.parse(JSON.stringify(currentStructure)) as ThesisStructure;
+  const stale = groupByChapter(newStructure).filter(needsMemoryUpdate);
+  hooks?.onLog?.(`论文记忆: 更新 ${stale.length} 个章节的摘要。`, 'info');
+  const concurrency = Math.max(1, apiConfig?.concurrency || DEFAULT_CHAPTER_CONCURRENCY);
+  const results = await runPool(stale, concurrency, chapter => updateChapterMemories([chapter], userInput, apiConfig, hooks));
+  if (results.some(r => !r.ok && isCancelledError(r.error))) {
+    throw new CancelledError(undefined, newStructure);
+  }
+  return newStructure;
+};
+
+// Section field a content pass writes. `rewrite` feeds the current text of that field into the
+// prompt so the agent revises it (transform agents) instead of writing from scratch; `mergeMode`
+// decides how the answer is combined with text already in the field.
+export interface ContentPassTarget extends SectionFieldTarget {
+  rewrite?: boolean;
+  mergeMode?: MergeMode;
+  // Display name of an extra field, also used to attribute annotations
+  label?: string;
+}
+
 export const runContentInjectionAgent = async (
   agentName: string,
   systemPromptTemplate: string,
   userInput: UserInput,
   currentStructure: ThesisStructure,
   apiConfig?: ApiConfig,
-  onlyMissing: boolean = false
+  // Chief Editor: only write the gaps this policy finds (see findChapterGaps); unset = every chapter
+  gapPolicy?: GapPolicy,
+  hooks?: RunHooks,
+  target: ContentPassTarget = { field: 'content' },
+  userPromptTemplate: string = DEFAULT_USER_TEMPLATES.chapter
 ): Promise<ThesisStructure> => {
 
   const newStructure = JSON.parse(JSON.stringify(currentStructure)) as ThesisStructure;
   
   // Strategy: Group by Chapter (Level 1).
-  const chapters: { root: ThesisSection; children: ThesisSection[] }[] = [];
-  let currentChapter: { root: ThesisSection; children: ThesisSection[] } | null = null;
+  const chapters = groupByChapter(newStructure);
+
+  const isVisuals = target.field === 'visuals';
+  const isExtra = target.field === 'extra';
+  const mergeMode = target.mergeMode || 'replace';
+  const fieldLabel = target.label || agentName;
+  // Live text only makes sense when the answer becomes the whole field
+  const streams = !isExtra && mergeMode === 'replace';
+  const memoryBudget = resolveMemoryBudget(apiConfig);
+  const concurrency = Math.max(1, apiConfig?.concurrency || DEFAULT_CHAPTER_CONCURRENCY);
+  // Body text passes summarise every chapter as it finishes, so later chapters build on it
+  const updatesMemory = target.field === 'content' && memoryBudget > 0;
+  // Summaries the prompts of the running wave read (see the worker pool below)
+  let memorySource = newStructure;
+
+  // Gaps that already have (too little) text are expanded from it
+  const showsExisting = !!target.rewrite || !!gapPolicy;
+  const showsNeighbours = !!gapPolicy && !isVisuals;
+
+  // Helper function to process a batch of sections. Returns the IDs the model left out.
+  const processBatch = async (batchSections: ThesisSection[], chapterTitle: string): Promise<string[]> => {
+      throwIfCancelled(hooks?.signal);
+      const structureList = batchSections.map(s => {
+          const line = `- ID: "${s.id}" Title: "${s.title}" (Level ${s.level})`;
+          const existing = readSectionField(s, target);
+          return showsExisting && existing ? `${line}\n  现有内容:\n${existing}` : line;
+      }).join('\n');
+      const userPrompt = renderUserPrompt(userPromptTemplate, {
+          ...inputVariables(userInput),
+          chapterTitle,
+          sectionList: structureList,
+          previousChapterSummary: buildMemoryContext(memorySource, batchSections.map(s => s.id), memoryBudget),
+          rewrite: showsExisting && batchSections.some(s => !!readSectionField(s, target)),
+          neighbourContext: showsNeighbours ? buildNeighbourContext(newStructure, batchSections.map(s => s.id)) : '',
+          isVisuals,
+          isExtra,
+          fieldLabel
+      });
 
-  for (const section of newStructure) {
-    if (section.level === 1) {
-      if (currentChapter) chapters.push(currentChapter);
-      currentChapter = { root: section, children: [] };
-    } else {
-      if (currentChapter) currentChapter.children.push(section);
-    }
-  }
-  if (currentChapter) chapters.push(currentChapter);
-
-  const isVisuals = agentName.includes("视觉") || agentName.includes("Visuals") || agentName.includes("Visuals Fix");
-
-  // Helper function to process a batch of sections
-  const processBatch = async (batchSections: ThesisSection[], chapterTitle: string) => {
-      const structureList = batchSections.map(s => `- ID: "${s.id}" Title: "${s.title}" (Level ${s.level})`).join('\n');
-      const userPrompt = `
-        ### 上下文
-        主题: ${userInput.topic}
-        领域: ${userInput.field}
-        侧重点: ${userInput.specificFocus}
-        
-        ### 目标章节
-        **${chapterTitle}**
-        包含以下小节:
-        ${structureList}
-        
-        ### 任务要求
-        请一次性为上述**所有**小节ID生成内容。
-        
-        ### 约束与格式
-        1. **JSON 输出**: 必须返回 JSON 对象: { "ID": "Markdown内容..." }
-        2. **转义规则**: JSON 字符串内容必须正确转义双引号和换行符。
-        3. **内容要求**:
-            ${isVisuals ? 
-            `- **仅生成图表与描述**: 仅输出 Markdown 表格、数据矩阵或图表占位符 (e.g. > [图 x.x] ...)。
-             - **包含描述**: 每个图表后必须跟一段对图表的简要分析或描述。
-             - **严禁生成普通正文**: 不要重复生成章节的常规正文文本。
-             - **严禁生成标题**: 不要包含章节标题。` 
-            : 
-            `- 每个ID的内容尽量详实，包含理论推导或实验数据。
-             - 使用 Markdown 格式。
-             - **数学公式**: 必须使用 LaTeX 格式。行内公式使用 $...$，独立公式使用 $$...$$。
-             - **纯文本**: 严禁生成 Markdown 表格或图表占位符。专注于文字叙述。
-             - **禁止重复标题**: 内容中不要包含章节标题本身 (e.g., 不要写 "# 1.1 Intro")，直接写正文。`
+      const streamOptions = createCallOptions(hooks, isVisuals ? 'visuals' : 'content', streams ? batchSections.map(s => s.id) : [], chapterTitle);
+      const partialContent = await callStructuredLLM(systemPromptTemplate, userPrompt, apiConfig, streamOptions, {
+          kind: isVisuals ? 'visuals' : 'content',
+          label: chapterTitle,
+          onLog: hooks?.onLog
+      });
+      
+      for (const [key, value] of Object.entries(partialContent)) {
+            const section = newStructure.find(s => s.id === key);
+            if (section) {
+                let text = value as string;
+                if (target.field === 'content' && text.trim().startsWith('#')) {
+                  text = text.replace(/^#[^\n]*\n/, '').trim();
+                }
+                writeSectionField(section, target, mergeFieldText(readSectionField(section, target), text, mergeMode, fieldLabel));
             }
+      }
+      return findMissingIds(batchSections, partialContent);
+  };
 
-        ### 思考与执行
-        1. ${isVisuals ? '为每个小节设计图表占位符或数据表。' : '为每个小节撰写连贯的学术正文(不带标题)。'}
-        2. 确保所有ID都有对应的内容。
-        3. 返回 JSON。
-      `;
-
-      const responseText = await callLLM(systemPromptTemplate, userPrompt, apiConfig, true);
-      const partialContent = extractJson(responseText);
-      
-      if (partialContent) {
-        for (const [key, value] of Object.entries(partialContent)) {
-              const section = newStructure.find(s => s.id === key);
-              if (section) {
-                  if (isVisuals) {
-                      section.visuals = value as string;
-                  } else {
-                      let contentStr = value as string;
-                      if (contentStr.trim().startsWith('#')) {
-                        contentStr = contentStr.replace(/^#[^\n]*\n/, '').trim();
-                      }
-                      section.content = contentStr;
-                  }
+  // **MISSING IDS**: sections the model skipped are re-requested one at a time instead of being left empty.
+  // Not every section needs a figure or a note, so this only applies to body text.
+  const fillMissing = async (missingIds: string[], chapterTitle: string) => {
+      if (target.field !== 'content' || missingIds.length === 0) return;
+      hooks?.onLog?.(`${chapterTitle}: 缺少 ${missingIds.length} 个小节的内容，逐个重新请求。`, 'info');
+      for (const id of missingIds) {
+          const section = newStructure.find(s => s.id === id);
+          if (!section) continue;
+          try {
+              const stillMissing = await processBatch([section], chapterTitle);
+              if (stillMissing.length > 0) {
+                  hooks?.onLog?.(`${section.title}: 重新请求后仍无内容。`, 'error');
+                  hooks?.onUnrecovered?.(stillMissing);
               }
-        }
+          } catch (e: any) {
+              if (!isMalformedOutputError(e)) throw e;
+              console.error(`Re-request failed for ${section.title}`, e);
+              hooks?.onLog?.(`${section.title}: 重新请求失败 (输出格式错误)。`, 'error');
+              hooks?.onUnrecovered?.([section.id]);
+          }
       }
   };
 
-  // Process each chapter sequentially
+  // Pick the chapters this pass has to write
+  const jobs: { title: string; sections: ThesisSection[] }[] = [];
   for (const chapter of chapters) {
     
     // **VISUALS FILTERING**
     if (isVisuals) {
        // Added strict filtering to avoid visual generation in inappropriate chapters
-       const skipKeywords = ["摘要", "Abstract", "致谢", "Acknowledgement", "参考", "Reference", "附录", "Appendix", "目录", "总结", "Conclusion", "展望", "Outlook"];
-       const titleLower = chapter.root.title.toLowerCase();
-       if (skipKeywords.some(k => titleLower.includes(k.toLowerCase()))) {
+       if (isVisualsExemptChapter(chapter.root.title)) {
            console.log(`Skipping Visuals for: ${chapter.root.title}`);
            continue;
        }
     }
 
-    const sectionsToProcess = chapter.children.length > 0 ? chapter.children : [chapter.root];
-    
-    // **CHIEF EDITOR LOGIC: Chapter Level Check**
-    // Update: User requires STRICT "Whole Chapter Missing" check.
-    // We only regenerate if ALL sections in the chapter are empty.
-    if (onlyMissing) {
-        const isChapterCompletelyMissing = sectionsToProcess.every(s => {
-            if (isVisuals) return !s.visuals || s.visuals.trim() === '';
-            return !s.content || s.content.trim() === '';
-        });
+    let sectionsToProcess = getChapterSections(chapter);
+
+    // **RETRY**: only the sections of the batches that failed, whatever the target or merge mode,
+    // so chapters that succeeded are not rewritten or appended to a second time
+    if (hooks?.onlySectionIds) {
+        sectionsToProcess = sectionsToProcess.filter(s => hooks.onlySectionIds!.includes(s.id));
+        if (sectionsToProcess.length === 0) continue;
+    }
 
-        if (!isChapterCompletelyMissing) {
-            console.log(`Skipping ${chapter.root.title} - Chapter is not completely empty (User Rule: Only fix if whole chapter missing).`);
+    // **RESUME**: chapters finished before the run was stopped are kept as they are.
+    // Rewrite and append passes start from filled sections, so they cannot tell finished chapters apart;
+    // annotations carry the agent's label and can. Gap passes re-check the current text anyway.
+    if (hooks?.resume && !hooks.onlySectionIds && !gapPolicy && !target.rewrite && mergeMode !== 'append') {
+        const isChapterDone = sectionsToProcess.every(s => {
+            const value = readSectionField(s, target);
+            if (mergeMode === 'annotate') return hasAnnotation(value, fieldLabel);
+            return !!value && value.trim() !== '';
+        });
+        if (isChapterDone) {
+            console.log(`Resume: skipping finished chapter ${chapter.root.title}`);
+            continue;
+        }
+    }
+    
+    // **CHIEF EDITOR LOGIC: Gap Check**
+    // Only the sections the gap policy reports are written: a whole empty chapter, every empty
+    // section, or every section below the minimum length.
+    if (gapPolicy) {
+        const gaps = findChapterGaps(chapter, isVisuals ? 'visuals' : 'content', gapPolicy);
+        if (gaps.length === 0) {
+            console.log(`Skipping ${chapter.root.title} - no gaps (${GAP_MODE_LABELS[gapPolicy.mode]}).`);
             continue;
         }
-        console.log(`Fixing Chapter: ${chapter.root.title} - Chapter is completely empty, regenerating.`);
+        console.log(`Fixing ${chapter.root.title}: ${gaps.length}/${sectionsToProcess.length} sections.`);
+        sectionsToProcess = gaps;
     }
 
-    console.log(`Processing Chapter: ${chapter.root.title} (${agentName}) - Items: ${sectionsToProcess.length}`);
+    jobs.push({ title: chapter.root.title, sections: sectionsToProcess });
+  }
+
+  const processChapter = async (chapterTitle: string, sectionsToProcess: ThesisSection[]) => {
+    console.log(`Processing Chapter: ${chapterTitle} (${agentName}) - Items: ${sectionsToProcess.length}`);
 
     // **ATTEMPT 1: WHOLE CHAPTER BATCH**
     try {
-        await processBatch(sectionsToProcess, chapter.root.title);
+        await fillMissing(await processBatch(sectionsToProcess, chapterTitle), chapterTitle);
     } catch (e: any) {
+        if (isCancelledError(e)) throw e;
         // **ERROR HANDLING: AUTOMATIC BATCH SPLITTING**
-        const errorMsg = e.message || e.toString();
-        // Distinguish between JSON parsing errors (retryable) and API errors (critical)
-        if (errorMsg.includes("Fatal JSON Error") || errorMsg.includes("JSON") || errorMsg.includes("SyntaxError")) {
-            console.warn(`Error detected in ${chapter.root.title}. Switching to Safety Batch Mode (3 batches).`, e);
+        // Distinguish between malformed output (split and retry) and API errors (critical).
+        // Quota/transient errors have already exhausted their retry budget inside callLLM.
+        if (isMalformedOutputError(e)) {
+            console.warn(`Error detected in ${chapterTitle}. Switching to Safety Batch Mode (3 batches).`, e);
+            hooks?.onLog?.(`${chapterTitle}: 输出格式错误，切换为分批模式 (3 批) 重试。`, 'error');
             
             // Split into 3 chunks
             const chunkSize = Math.ceil(sectionsToProcess.length / 3);
@@ -567,34 +902,126 @@ export const runContentInjectionAgent = async (
             // Process chunks sequentially
             for (const chunk of chunks) {
                 try {
-                    await processBatch(chunk, chapter.root.title);
+                    await fillMissing(await processBatch(chunk, chapterTitle), chapterTitle);
                 } catch (retryError: any) {
-                    const retryMsg = retryError.message || "";
-                    if (!retryMsg.includes("JSON") && !retryMsg.includes("Syntax")) {
+                    if (!isMalformedOutputError(retryError)) {
                          // Critical error during retry, must propagate
                          throw retryError;
                     }
-                    console.error(`Batch retry failed for part of ${chapter.root.title}`, retryError);
+                    console.error(`Batch retry failed for part of ${chapterTitle}`, retryError);
+                    hooks?.onLog?.(`${chapterTitle}: ${chunk.length} 个小节分批重试后输出仍不合法，保持原样。`, 'error');
+                    hooks?.onUnrecovered?.(chunk.map(s => s.id));
                 }
             }
         } else {
-            console.error(`Critical error in ${chapter.root.title}, aborting agent.`, e);
+            console.error(`Critical error in ${chapterTitle}, aborting chapter.`, e);
             throw e; // Re-throw critical API errors (e.g., 401, network error)
         }
     }
+  };
+
+  // **BATCH PLANNING**: size batches up front against the model's output/context limits
+  // instead of discovering an oversized chapter through a truncated, wasted call
+  const activeConfig = apiConfig || DEFAULT_API_CONFIG;
+  const model = activeConfig.modelName || getProvider(resolveProviderId(activeConfig)).defaultModel;
+  // The memory context is counted at its full budget; it is cut to fit that
+  const promptOverhead = estimateTokens(systemPromptTemplate + userInput.topic + userInput.field + userInput.specificFocus) + 800 + memoryBudget;
+  const budget = computeBatchBudget(model, activeConfig.maxTokens, promptOverhead);
+  if (hooks?.resume && !hooks.onlySectionIds && (target.rewrite || mergeMode === 'append')) {
+      hooks.onLog?.(`${agentName}: 改写/追加模式无法识别已完成的章节，将重新处理全部章节。`, 'info');
+  }
+  const batches = planBatches(jobs, isVisuals ? 'visuals' : 'content', budget, {
+      existingText: showsExisting ? s => readSectionField(s, target) : undefined,
+      extraPromptTokens: showsNeighbours ? NEIGHBOUR_CONTEXT_TOKENS_PER_GAP : 0
+  });
+  if (batches.length !== jobs.length) {
+      hooks?.onLog?.(`${agentName}: 批次规划 ${jobs.length} 个章节 → ${batches.length} 个批次 (单批输出预算 ~${budget.outputTokens} tokens)。`, 'info');
+  }
+
+  // **WORKER POOL**: batches run concurrently up to the configured limit. Every batch only
+  // writes its own sections, so the merged structure keeps the architect's order.
+  // With thesis memory, batches run in waves of that size in document order instead: a wave reads
+  // the summaries of every chapter finished in the waves before it, copied when it starts, so what
+  // a prompt contains never depends on which batch finished first (cache hits, replay keys).
+  // Conclusions and abstracts look back on the whole thesis and run last.
+  const looksBack = (job: PlannedBatch) => findChaptersOf(newStructure, job.sections.map(s => s.id)).every(c => isSummaryChapter(c.root.title));
+  const ordered = updatesMemory ? [...batches.filter(job => !looksBack(job)), ...batches.filter(looksBack)] : batches;
+  const waveSize = updatesMemory ? concurrency : ordered.length;
+  if (ordered.length > 1 && concurrency > 1) {
+      hooks?.onLog?.(`${agentName}: 共 ${ordered.length} 个批次，并发上限 ${concurrency}${updatesMemory && ordered.length > waveSize ? ' (按章节顺序分轮执行，后一轮可读取前几轮的章节摘要)' : ''}。`, 'info');
+  }
+
+  const results: SettledResult<void>[] = [];
+  for (let start = 0; start < ordered.length; start += waveSize) {
+      if (results.some(r => !r.ok && isCancelledError(r.error))) break;
+      memorySource = JSON.parse(JSON.stringify(newStructure)) as ThesisStructure;
+      results.push(...await runPool(ordered.slice(start, start + waveSize), concurrency, async (job, i) => {
+          const tag = `[${start + i + 1}/${ordered.length}] ${job.title}`;
+          throwIfCancelled(hooks?.signal);
+          hooks?.onLog?.(`${tag}: 开始`, 'info');
+          try {
+              await processChapter(job.title, job.sections);
+              if (updatesMemory) {
+                  await updateChapterMemories(findChaptersOf(newStructure, job.sections.map(s => s.id)), userInput, apiConfig, hooks);
+              }
+          } catch (e: any) {
+              if (!isCancelledError(e)) hooks?.onLog?.(`${tag}: 失败 - ${e.message}`, 'error');
+              throw e;
+          }
+          hooks?.onLog?.(`${tag}: 完成`, 'success');
+      }));
+  }
+
+  // **CANCELLATION**: hand back what is finished so far; chapters in flight stay untouched
+  if (results.some(r => !r.ok && isCancelledError(r.error))) {
+      throw new CancelledError(undefined, newStructure);
+  }
+
+  // One failed chapter does not discard the ones that succeeded
+  const failed = ordered.filter((_, i) => !results[i].ok);
+  if (failed.length > 0) {
+      const firstError: any = results.find(r => !r.ok)?.error;
+      throw new PartialRunError(
+          `${failed.length}/${ordered.length} 个批次失败: ${firstError?.message || firstError}`,
+          newStructure,
+          failed.map(job => job.title),
+          failed.flatMap(job => job.sections.map(s => s.id))
+      );
   }
 
   return newStructure;
 };
 
+// Fields the step runner and regeneration dispatch on
+type DispatchableAgent = Pick<Agent, 'name' | 'systemPrompt' | 'id' | 'llmOverrides' | 'kind' | 'outputField' | 'extraField' | 'mergeMode' | 'reviewPolicy' | 'gapPolicy' | 'visualsFixPrompt' | 'userPromptTemplate' | 'regenerateTemplate'>;
+
+// Where a field-writing agent puts its answer; null for the structure agent, which writes titles
+const getContentTarget = (agent: DispatchableAgent): ContentPassTarget | null => {
+  const outputField = getOutputField(agent);
+  if (outputField === 'title') return null;
+  if (outputField === 'extra' && !agent.extraField?.key) {
+    throw new Error(`${agent.name}: 写入自定义字段的模块必须声明字段名。`);
+  }
+  return {
+    field: outputField,
+    extraKey: agent.extraField?.key,
+    label: outputField === 'extra' ? agent.extraField!.label : agent.name,
+    rewrite: agent.kind === 'transform',
+    mergeMode: agent.mergeMode || 'replace'
+  };
+};
+
 // **NEW FUNCTION: REGENERATE SPECIFIC SECTIONS**
 export const regenerateSpecificSections = async (
-  agent: Agent,
+  agent: DispatchableAgent,
   userInput: UserInput,
   currentStructure: ThesisStructure,
   sectionIdsToRegenerate: string[],
   apiConfig?: ApiConfig,
-  userInstruction?: string // Added: User specific feedback
+  userInstruction?: string, // Added: User specific feedback
+  hooks?: RunHooks,
+  // Show the current text so the instruction is applied to it (critic revisions)
+  reviseExisting: boolean = false
 ): Promise<ThesisStructure> => {
   
   const newStructure = JSON.parse(JSON.stringify(currentStructure)) as ThesisStructure;
@@ -603,93 +1030,77 @@ export const regenerateSpecificSections = async (
   const sectionsToProcess = newStructure.filter(s => sectionIdsToRegenerate.includes(s.id));
   if (sectionsToProcess.length === 0) return newStructure;
 
-  const isVisuals = agent.name.includes("视觉") || agent.name.includes("Visuals") || agent.name.includes("Visuals Fix");
-  const isArchitect = agent.name.includes("架构师") || agent.name.includes("Architect"); // Added check for Architect
-  
-  const structureList = sectionsToProcess.map(s => `- ID: "${s.id}" Title: "${s.title}" (Level ${s.level})`).join('\n');
-
-  let userPrompt = `
-    ### 任务类型: 内容重写 / 优化
-    ### 上下文
-    主题: ${userInput.topic}
-    领域: ${userInput.field}
-    侧重点: ${userInput.specificFocus}
-    
-    ### 目标小节
-    ${structureList}
-    
-    ### 用户具体指令 (User Feedback)
-    ${userInstruction ? `用户对这部分内容/结构提出了修改意见: "${userInstruction}"。\n请严格根据此意见进行修改。` : "用户觉得这部分不满意，请重新生成优化。"}
-    
-    ### 任务要求
-    请一次性为上述**所有**小节ID生成内容。
-    
-    ### 约束与格式
-    1. **JSON 输出**: 必须返回 JSON 对象: { "ID": "Value..." }
-    2. **转义规则**: JSON 字符串内容必须正确转义双引号和换行符。
-  `;
+  const target = getContentTarget(agent);
+  const isVisuals = target?.field === 'visuals';
+  const isExtra = target?.field === 'extra';
+  const isArchitect = !target;
+  const agentConfig = resolveAgentApiConfig(apiConfig, agent.llmOverrides);
+
+  // Builds the prompt, calls the agent and applies the answer. Returns the IDs the model left out.
+  const regenerateBatch = async (batchSections: ThesisSection[]): Promise<string[]> => {
+    const structureList = batchSections.map(s => {
+      const line = `- ID: "${s.id}" Title: "${s.title}" (Level ${s.level})`;
+      // Transform agents and critic revisions change existing text, so they need to see it
+      const existing = target ? readSectionField(s, target) : undefined;
+      return (target?.rewrite || reviseExisting) && existing ? `${line}\n  现有内容:\n${existing}` : line;
+    }).join('\n');
+
+    const userPrompt = renderUserPrompt(agent.regenerateTemplate || DEFAULT_USER_TEMPLATES.regenerate, {
+      ...inputVariables(userInput),
+      sectionList: structureList,
+      previousChapterSummary: buildMemoryContext(newStructure, batchSections.map(s => s.id), resolveMemoryBudget(agentConfig)),
+      userInstruction,
+      isArchitect,
+      isVisuals,
+      isExtra,
+      fieldLabel: target?.label
+    });
 
-  if (isArchitect) {
-      userPrompt += `
-    3. **架构师模式 (Structure Refinement)**:
-       - 你的任务是**修改章节标题**或**调整结构**。
-       - 返回的 JSON Value 应该是**新的标题字符串** (New Title)。
-       - 如果需要，你可以微调标题的层级标记 (如 ## 3.1)。
-       - 严禁生成正文内容。只返回标题。
-      `;
-  } else if (isVisuals) {
-      userPrompt += `
-    3. **视觉专家模式**:
-       - **仅生成图表与描述**: 仅输出 Markdown 表格或图表说明。严禁生成正文或标题。
-       - **包含描述**: 每个图表后必须跟一段对图表的简要分析或描述。
-      `;
-  } else {
-      userPrompt += `
-    3. **内容撰写模式**:
-       - 内容必须详实，深度优化。
-       - 使用 Markdown 格式。
-       - **数学公式**: 必须使用 LaTeX 格式。行内公式使用 $...$，独立公式使用 $$...$$。
-       - **纯文本**: 严禁生成 Markdown 表格或图表占位符。专注于文字叙述。
-       - **禁止重复标题**: 内容中不要包含章节标题本身，直接写正文。
-      `;
-  }
+    // Titles, extra fields and merged answers are applied at the end instead of streamed into sections
+    const streams = !!target && !isExtra && target.mergeMode === 'replace';
+    const batchIds = batchSections.map(s => s.id);
+    const streamOptions = createCallOptions(hooks, isVisuals ? 'visuals' : 'content', streams ? batchIds : [], '选中重写');
+    const partialContent = await callStructuredLLM(agent.systemPrompt, userPrompt, agentConfig, streamOptions, {
+        kind: isVisuals ? 'visuals' : 'content',
+        label: '选中重写',
+        onLog: hooks?.onLog
+    });
 
-  userPrompt += `
-    ### 思考与执行
-    1. 根据用户指令和模式类型生成 JSON。
-    2. 确保所有ID都有对应的结果。
-    3. 返回 JSON。
-  `;
+    for (const [key, value] of Object.entries(partialContent)) {
+          const section = newStructure.find(s => s.id === key);
+          if (section) {
+              if (isArchitect) {
+                  // Update Title for Architect
+                  let newTitle = value as string;
+                  // Ensure basic level indicators if lost, though LLM usually handles it or we rely on existing level
+                  if (!newTitle.startsWith('#')) {
+                       newTitle = "#".repeat(section.level) + " " + newTitle;
+                  }
+                  section.title = newTitle;
+              } else {
+                  let text = value as string;
+                  if (target!.field === 'content' && text.trim().startsWith('#')) {
+                    text = text.replace(/^#[^\n]*\n/, '').trim();
+                  }
+                  writeSectionField(section, target!, mergeFieldText(readSectionField(section, target!), text, target!.mergeMode!, target!.label!));
+              }
+          }
+    }
+    return findMissingIds(batchSections, partialContent);
+  };
 
   try {
-    const responseText = await callLLM(agent.systemPrompt, userPrompt, apiConfig, true);
-    const partialContent = extractJson(responseText);
-    
-    if (partialContent) {
-      for (const [key, value] of Object.entries(partialContent)) {
-            const section = newStructure.find(s => s.id === key);
-            if (section) {
-                if (isArchitect) {
-                    // Update Title for Architect
-                    let newTitle = value as string;
-                    // Ensure basic level indicators if lost, though LLM usually handles it or we rely on existing level
-                    if (!newTitle.startsWith('#')) {
-                         newTitle = "#".repeat(section.level) + " " + newTitle;
-                    }
-                    section.title = newTitle;
-                } else if (isVisuals) {
-                    section.visuals = value as string;
-                } else {
-                    let contentStr = value as string;
-                    if (contentStr.trim().startsWith('#')) {
-                      contentStr = contentStr.replace(/^#[^\n]*\n/, '').trim();
-                    }
-                    section.content = contentStr;
-                }
-            }
-      }
+    const missingIds = await regenerateBatch(sectionsToProcess);
+
+    // The user picked these sections explicitly, so every skipped one is re-requested on its own
+    for (const id of missingIds) {
+      const section = newStructure.find(s => s.id === id)!;
+      hooks?.onLog?.(`${section.title}: 模型未返回该小节，单独重新请求。`, 'info');
+      const stillMissing = await regenerateBatch([section]);
+      if (stillMissing.length > 0) hooks?.onLog?.(`${section.title}: 重新请求后仍无结果，保留原内容。`, 'error');
     }
   } catch (e: any) {
+    if (isCancelledError(e)) throw e;
     console.error("Regeneration failed", e);
     throw new Error(`Regeneration failed: ${e.message}`);
   }
@@ -697,58 +1108,247 @@ export const regenerateSpecificSections = async (
   return newStructure;
 };
 
-export const runAgentStepStructured = async (
-  agent: { name: string, systemPrompt: string, id: string },
+// **CRITIC**: scores every written section, sends the ones below the threshold back to the reviser
+// with the comments as instruction, and re-scores them, for at most `maxRounds` revisions.
+// Chapters run their loops independently on the worker pool.
+export const runReviewAgent = async (
+  agent: DispatchableAgent,
+  reviser: DispatchableAgent | undefined,
   userInput: UserInput,
   currentStructure: ThesisStructure,
-  apiConfig?: ApiConfig
-): Promise<{ structure: ThesisStructure, markdown: string }> => {
+  apiConfig?: ApiConfig,
+  hooks?: RunHooks,
+  // Limits the run to these sections (reviewing a selection); unset = the whole thesis
+  sectionIds?: string[]
+): Promise<ThesisStructure> => {
+  if (!reviser) throw new Error(`${agent.name}: 工作流中没有可执行修订的正文撰写模块。`);
 
-  let updatedStructure: ThesisStructure = [];
+  const newStructure = JSON.parse(JSON.stringify(currentStructure)) as ThesisStructure;
+  const policy = resolveReviewPolicy(agent.reviewPolicy);
+  const agentConfig = resolveAgentApiConfig(apiConfig, agent.llmOverrides);
+
+  const jobs: { title: string; sections: ThesisSection[] }[] = [];
+  for (const chapter of groupByChapter(newStructure)) {
+    const sections = getChapterSections(chapter)
+      .filter(s => s.content?.trim() && (!sectionIds || sectionIds.includes(s.id)))
+      .filter(s => {
+        // **RESUME**: sections that passed or ran out of rounds keep their history; the rest continue it
+        if (!hooks?.resume) return true;
+        const latest = getLatestReview(s);
+        return !latest || (!latest.passed && latest.round <= policy.maxRounds);
+      });
+    if (!hooks?.resume) sections.forEach(s => { s.reviews = []; });
+    if (sections.length > 0) jobs.push({ title: chapter.root.title, sections });
+  }
 
-  if (agent.name.includes("架构师") || agent.name.includes("Architect")) {
-    updatedStructure = await runArchitectAgent(userInput, apiConfig, agent.systemPrompt);
-  } else if (agent.id === 'final_draft') {
-      // **CHIEF EDITOR LOGIC (Check & Fix)**
-      console.log("Chief Editor running checks...");
-      
-      // 1. Fix missing content (Chapter level check)
-      // If a chapter has missing content, it regenerates the whole chapter content.
-      updatedStructure = await runContentInjectionAgent(
-          "Chief Editor (Content Fix)",
-          FIXER_PLANNER_PROMPT,
+  // Returns the review of every section the model answered for
+  const reviewBatch = async (sections: ThesisSection[], chapterTitle: string): Promise<Record<string, { scores: SectionReview['scores']; comments: string[] }>> => {
+    throwIfCancelled(hooks?.signal);
+    const sectionList = sections.map(s => `- ID: "${s.id}" Title: "${s.title}"\n  正文:\n${s.content}`).join('\n');
+    const userPrompt = renderUserPrompt(agent.userPromptTemplate || DEFAULT_USER_TEMPLATES.review, {
+      ...inputVariables(userInput),
+      chapterTitle,
+      sectionList,
+      previousChapterSummary: buildMemoryContext(newStructure, sections.map(s => s.id), resolveMemoryBudget(agentConfig))
+    });
+    return callStructuredLLM(agent.systemPrompt, userPrompt, agentConfig, createCallOptions(hooks, 'content', [], chapterTitle), {
+      kind: 'review',
+      label: `${chapterTitle} (评审)`,
+      onLog: hooks?.onLog
+    });
+  };
+
+  const processChapter = async (chapterTitle: string, sections: ThesisSection[]) => {
+    let pending = sections;
+    while (pending.length > 0) {
+      const answers = await reviewBatch(pending, chapterTitle);
+      const toRevise: ThesisSection[] = [];
+
+      for (const section of pending) {
+        const answer = answers[section.id];
+        if (!answer) {
+          hooks?.onLog?.(`${section.title}: 评审未返回该小节，保留当前内容。`, 'error');
+          continue;
+        }
+        const round = (section.reviews?.length || 0) + 1;
+        const overall = computeOverallScore(answer.scores);
+        const passed = overall >= policy.threshold;
+        const revised = !passed && round <= policy.maxRounds;
+        section.reviews = [...(section.reviews || []), {
+          round,
+          scores: answer.scores,
+          overall,
+          comments: answer.comments,
+          passed,
+          revised,
+          reviewer: agent.name,
+          timestamp: new Date().toISOString()
+        }];
+        if (revised) {
+          toRevise.push(section);
+        } else if (!passed) {
+          hooks?.onLog?.(`${section.title}: ${overall} 分，已达最大修订轮数 (${policy.maxRounds})，保留当前版本。`, 'error');
+        }
+      }
+
+      if (toRevise.length > 0) {
+        hooks?.onLog?.(`${chapterTitle}: ${toRevise.length} 个小节低于 ${policy.threshold} 分，退回 ${reviser.name} 修订。`, 'info');
+      }
+      for (const section of toRevise) {
+        const revisedStructure = await regenerateSpecificSections(
+          reviser,
           userInput,
-          currentStructure, // Start with current
-          apiConfig,
-          true // Only missing Check
-      );
-      
-      // 2. Fix missing visuals (Chapter level check)
-      // If a chapter has missing visuals, it regenerates the whole chapter visuals.
-      updatedStructure = await runContentInjectionAgent(
-          "Chief Editor (Visuals Fix)",
-          FIXER_VISUALS_PROMPT,
-          userInput, // Fixed: passing userInput instead of updatedStructure
-          updatedStructure, // pass updated as current
+          newStructure,
+          [section.id],
           apiConfig,
-          true // Only missing Check
-      );
+          buildRevisionInstruction(getLatestReview(section)!),
+          hooks,
+          true
+        );
+        section.content = revisedStructure.find(s => s.id === section.id)!.content;
+      }
+      pending = toRevise;
+    }
+  };
+
+  hooks?.onLog?.(`${agent.name}: 评审 ${jobs.reduce((n, job) => n + job.sections.length, 0)} 个小节 (阈值 ${policy.threshold} 分，最多修订 ${policy.maxRounds} 轮)。`, 'info');
 
-  } else {
-    updatedStructure = await runContentInjectionAgent(
-      agent.name,
-      agent.systemPrompt,
-      userInput,
-      currentStructure,
-      apiConfig
+  const concurrency = Math.max(1, apiConfig?.concurrency || DEFAULT_CHAPTER_CONCURRENCY);
+  const results = await runPool(jobs, concurrency, async (job, index) => {
+    const tag = `[${index + 1}/${jobs.length}] ${job.title}`;
+    throwIfCancelled(hooks?.signal);
+    hooks?.onLog?.(`${tag}: 开始评审`, 'info');
+    try {
+      await processChapter(job.title, job.sections);
+    } catch (e: any) {
+      if (!isCancelledError(e)) hooks?.onLog?.(`${tag}: 失败 - ${e.message}`, 'error');
+      throw e;
+    }
+    hooks?.onLog?.(`${tag}: 完成`, 'success');
+  });
+
+  // Same contract as the content agents: stopped runs and failed chapters keep the rounds already done
+  if (results.some(r => !r.ok && isCancelledError(r.error))) {
+    throw new CancelledError(undefined, newStructure);
+  }
+  const failed = jobs.filter((_, i) => !results[i].ok);
+  if (failed.length > 0) {
+    const firstError: any = results.find(r => !r.ok)?.error;
+    throw new PartialRunError(
+      `${failed.length}/${jobs.length} 个章节评审失败: ${firstError?.message || firstError}`,
+      newStructure,
+      failed.map(job => job.title),
+      failed.flatMap(job => job.sections.map(s => s.id))
     );
   }
 
-  const markdown = renderThesisMarkdown(updatedStructure, userInput.topic);
-  return { structure: updatedStructure, markdown };
+  return newStructure;
+};
+
+export const runAgentStepStructured = async (
+  agent: DispatchableAgent,
+  userInput: UserInput,
+  currentStructure: ThesisStructure,
+  apiConfig?: ApiConfig,
+  hooks?: RunHooks,
+  // Content agent a critic sends weak sections back to (see resolveReviser)
+  reviser?: DispatchableAgent
+): Promise<{ structure: ThesisStructure, markdown: string, unrecoveredSectionIds: string[] }> => {
+
+  let updatedStructure: ThesisStructure = [];
+  const agentConfig = resolveAgentApiConfig(apiConfig, agent.llmOverrides);
+  // Sections this step could not produce valid output for (the "onError" run mode pauses on them)
+  const unrecoveredSectionIds: string[] = [];
+  const callerHooks = hooks;
+  hooks = {
+    ...callerHooks,
+    onUnrecovered: ids => {
+      unrecoveredSectionIds.push(...ids.filter(id => !unrecoveredSectionIds.includes(id)));
+      callerHooks?.onUnrecovered?.(ids);
+    }
+  };
+  // Chief Editor: gaps found before filling, for the report
+  const gapPolicy = resolveGapPolicy(agent.gapPolicy);
+  let gaps: SectionGap[] = [];
+
+  try {
+    if (agent.kind === 'structure') {
+      updatedStructure = await runArchitectAgent(userInput, agentConfig, agent.systemPrompt, hooks, agent.userPromptTemplate);
+    } else if (agent.kind === 'review') {
+        // A failed content fix leaves the visuals fix unrun, so a retry checks the whole thesis
+        // again; gaps that were filled are no longer gaps and are not touched
+        hooks = { ...hooks, onlySectionIds: undefined };
+        // **CHIEF EDITOR LOGIC (Check & Fix)**
+        console.log("Chief Editor running checks...");
+        gaps = [...findGaps(currentStructure, 'content', gapPolicy), ...findGaps(currentStructure, 'visuals', gapPolicy)];
+        hooks?.onLog?.(`${agent.name}: 发现 ${gaps.length} 处缺口 (正文规则: ${GAP_MODE_LABELS[gapPolicy.mode]})。`, 'info');
+        
+        // 1. Fix missing content (gap policy), with the neighbouring sections as context
+        updatedStructure = await runContentInjectionAgent(
+            "Chief Editor (Content Fix)",
+            agent.systemPrompt,
+            userInput,
+            currentStructure, // Start with current
+            agentConfig,
+            gapPolicy,
+            hooks,
+            { field: 'content' },
+            agent.userPromptTemplate
+        );
+        
+        // 2. Fix missing visuals (Chapter level check)
+        // If a chapter has no visuals at all, it generates the whole chapter's visuals.
+        updatedStructure = await runContentInjectionAgent(
+            "Chief Editor (Visuals Fix)",
+            agent.visualsFixPrompt || BUILT_IN_PROMPTS.fixer_visuals,
+            userInput, // Fixed: passing userInput instead of updatedStructure
+            updatedStructure, // pass updated as current
+            agentConfig,
+            gapPolicy, // visuals always use the whole-chapter check
+            hooks,
+            { field: 'visuals' },
+            agent.userPromptTemplate
+        );
+  
+    } else if (agent.kind === 'critic') {
+      updatedStructure = await runReviewAgent(agent, reviser, userInput, currentStructure, apiConfig, hooks, hooks.onlySectionIds);
+    } else {
+      // content, visuals, transform and custom agents all write one section field per chapter
+      const target = getContentTarget(agent);
+      if (!target) {
+        throw new Error(`${agent.name}: 只有结构类模块可以输出章节标题。`);
+      }
+      updatedStructure = await runContentInjectionAgent(
+        agent.name,
+        agent.systemPrompt,
+        userInput,
+        currentStructure,
+        agentConfig,
+        undefined,
+        hooks,
+        target,
+        agent.userPromptTemplate
+      );
+    }
+    // Chapters this step rewrote (critic revisions, transforms, Chief Editor fixes) get new summaries
+    if (agent.kind !== 'structure') {
+      updatedStructure = await refreshThesisMemory(updatedStructure, userInput, agentConfig, hooks);
+    }
+  } catch (e: any) {
+    // A stop before any chapter finished leaves the structure as it was
+    if (isCancelledError(e) && !e.partialStructure) e.partialStructure = currentStructure;
+    throw e;
+  }
+
+  const markdown = agent.kind === 'critic'
+    ? renderReviewReport(updatedStructure, resolveReviewPolicy(agent.reviewPolicy))
+    : agent.kind === 'review'
+      ? renderGapReport(gaps, updatedStructure, gapPolicy)
+      : renderThesisMarkdown(updatedStructure, userInput.topic, agent.extraField ? [agent.extraField] : []);
+  return { structure: updatedStructure, markdown, unrecoveredSectionIds };
 };
 
-export const renderThesisMarkdown = (structure: ThesisStructure, topic?: string): string => {
+export const renderThesisMarkdown = (structure: ThesisStructure, topic?: string, extraFields: ExtraFieldSpec[] = []): string => {
   if (!structure || structure.length === 0) return "";
   let md = "";
   if (topic) md += `# ${topic}\n\n`;
@@ -767,6 +1367,7 @@ export const renderThesisMarkdown = (structure: ThesisStructure, topic?: string)
     md += `${prefix} ${cleanTitle}\n\n`;
     if (s.content) md += `${s.content}\n\n`;
     if (s.visuals) md += `${s.visuals}\n\n`;
+    md += renderExtraFieldsMarkdown(s, extraFields);
     if (s.level === 1) md += "\n---\n\n"; 
   });
   return md;
@@ -852,8 +1453,7 @@ export const parseStyleGuide = async (
 
   const userPrompt = `Here is the style guide text:\n${rawText}`;
 
-  const responseText = await callLLM(systemPrompt, userPrompt, apiConfig, true);
-  const json = extractJson(responseText);
+  const json = await callStructuredLLM(systemPrompt, userPrompt, apiConfig, {}, { kind: 'styleConfig', label: 'Style Guide' });
   
   if (!json) throw new Error("Failed to parse style guide");
   return json as ThesisStyleConfig;
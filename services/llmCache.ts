@@ -0,0 +1,148 @@
+import { LLMProviderId, CacheMode, ChatMessage } from "../types";
+import { ProviderUsage } from "./providers";
+
+// Content-addressed cache of LLM responses in IndexedDB. Identical requests (provider, model,
+// prompts and generation parameters) are served locally instead of being billed again.
+// Entries are evicted least-recently-used once the configured size limit is exceeded.
+
+const DB_NAME = 'thesisforge-llm-cache';
+const STORE = 'responses';
+const SETTINGS_KEY = 'thesisforge.cacheSettings';
+
+export type { CacheMode };
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxBytes: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: true, maxBytes: 50 * 1024 * 1024 };
+
+export interface CacheKeyParts {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl: string;
+  systemPrompt: string;
+  messages: ChatMessage[];
+  jsonMode: boolean;
+  temperature: number;
+  maxTokens?: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  provider: LLMProviderId;
+  model: string;
+  // Short excerpt of the last user message, for the cache browser
+  preview: string;
+  text: string;
+  usage?: ProviderUsage;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_CACHE_SETTINGS;
+  } catch (e) {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const computeCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+  const data = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedResponse = async (key: string): Promise<CacheEntry | undefined> => {
+  const entry = await withStore<CacheEntry | undefined>('readonly', store => store.get(key));
+  if (entry) {
+    // Touch for LRU; failures here must not break the call
+    withStore('readwrite', store => store.put({ ...entry, lastAccess: Date.now() })).catch(() => {});
+  }
+  return entry;
+};
+
+export const putCachedResponse = async (
+  key: string,
+  parts: CacheKeyParts,
+  text: string,
+  usage?: ProviderUsage
+): Promise<void> => {
+  const lastUser = [...parts.messages].reverse().find(m => m.role === 'user')?.content || '';
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    provider: parts.provider,
+    model: parts.model,
+    preview: lastUser.replace(/\s+/g, ' ').trim().substring(0, 160),
+    text,
+    usage,
+    // UTF-16 in IndexedDB: roughly two bytes per char for prompt excerpt + response
+    size: (text.length + parts.systemPrompt.length + lastUser.length) * 2,
+    createdAt: now,
+    lastAccess: now
+  };
+  await withStore('readwrite', store => store.put(entry));
+  await enforceCacheLimit(loadCacheSettings().maxBytes);
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastAccess - a.lastAccess);
+};
+
+export const deleteCacheEntry = (key: string) => withStore('readwrite', store => store.delete(key));
+
+export const clearCache = () => withStore('readwrite', store => store.clear());
+
+// Drops least-recently-used entries until the total size fits the limit
+export const enforceCacheLimit = async (maxBytes: number): Promise<number> => {
+  const entries = await listCacheEntries();
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let evicted = 0;
+  for (let i = entries.length - 1; i >= 0 && total > maxBytes; i--) {
+    await deleteCacheEntry(entries[i].key);
+    total -= entries[i].size;
+    evicted++;
+  }
+  return evicted;
+};
@@ -0,0 +1,108 @@
+import { ThesisStructure } from "../types";
+
+// Error classes for LLM calls. Adapters throw these so the retry layer and the
+// batch logic can decide what to do without matching on message strings.
+//  - auth:      bad/missing key, wrong endpoint or unknown model (configuration). Never retried.
+//  - quota:     429 / rate limits. Retried with backoff, honouring Retry-After up to the max delay.
+//  - transient: 5xx, overload, network drops, timeouts. Retried with backoff.
+//  - malformed: the model answered but the output is unusable (empty, invalid JSON).
+export type LLMErrorKind = 'auth' | 'quota' | 'transient' | 'malformed';
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// Thrown when the user stops a run. Carries the structure as far as it got so finished
+// chapters are not lost; never retried and never wrapped into an LLMError.
+export class CancelledError extends Error {
+  partialStructure?: ThesisStructure;
+
+  constructor(message: string = "Run cancelled by user", partialStructure?: ThesisStructure) {
+    super(message);
+    this.name = 'CancelledError';
+    this.partialStructure = partialStructure;
+  }
+}
+
+// Thrown when some chapters of a step failed after the others finished. The finished
+// chapters are kept in partialStructure instead of being thrown away with the error;
+// failedSectionIds are the sections of the failed batches, which a retry runs again.
+export class PartialRunError extends Error {
+  partialStructure: ThesisStructure;
+  failedChapters: string[];
+  failedSectionIds: string[];
+
+  constructor(message: string, partialStructure: ThesisStructure, failedChapters: string[], failedSectionIds: string[]) {
+    super(message);
+    this.name = 'PartialRunError';
+    this.partialStructure = partialStructure;
+    this.failedChapters = failedChapters;
+    this.failedSectionIds = failedSectionIds;
+  }
+}
+
+export const isCancelledError = (e: unknown): e is CancelledError => e instanceof CancelledError;
+
+// Throws a CancelledError if the run's signal has fired
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+export const isRetryableError = (e: unknown): e is LLMError =>
+  e instanceof LLMError && (e.kind === 'quota' || e.kind === 'transient');
+
+export const isMalformedOutputError = (e: unknown): e is LLMError =>
+  e instanceof LLMError && e.kind === 'malformed';
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (headers?: Headers | null): number | undefined => {
+  const value = headers?.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+};
+
+export const classifyHttpStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 409 || status >= 500) return 'transient';
+  // Remaining 4xx (bad request, unknown model, ...) will not fix themselves on retry
+  return 'auth';
+};
+
+// Network drops, timeouts and server-side failures that SDKs report without an HTTP status
+const TRANSIENT_MESSAGE = /failed to fetch|fetch failed|network ?error|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|timed? ?out|\b5\d\d\b|UNAVAILABLE|overloaded/i;
+
+// Wraps errors thrown by an SDK or fetch into an LLMError. Anything it does not recognise
+// (usually a bug in our own code) is returned unchanged so it surfaces instead of being retried.
+export const toLLMError = <T>(e: T): LLMError | T => {
+  if (e instanceof LLMError) return e;
+  const err = e as any;
+  const message = err?.message || String(e);
+
+  if (typeof err?.status === 'number') {
+    // Gemini puts the suggested delay into the message ("Please retry in 12.5s")
+    const retryMatch = message.match(/retry in ([\d.]+)s/i);
+    return new LLMError(classifyHttpStatus(err.status), message, {
+      status: err.status,
+      retryAfterMs: retryMatch ? parseFloat(retryMatch[1]) * 1000 : undefined
+    });
+  }
+  if (/\b429\b|RESOURCE_EXHAUSTED/.test(message)) return new LLMError('quota', message);
+  if (e instanceof SyntaxError) return new LLMError('malformed', message);
+  if (err?.name === 'TimeoutError' || TRANSIENT_MESSAGE.test(message)) return new LLMError('transient', message);
+  return e;
+};
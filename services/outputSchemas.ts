@@ -0,0 +1,201 @@
+
+// JSON schemas for agent outputs and a small validator for them.
+// Only the subset of JSON Schema the agents need is supported; the error strings are
+// fed back to the model in the repair round-trip, so they name the exact path.
+
+export type JsonSchema =
+  | { type: 'string'; minLength?: number; enum?: string[] }
+  | { type: 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items?: JsonSchema; minItems?: number }
+  | {
+      type: 'object';
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+      // Schema for keys not listed in `properties`; false forbids them
+      additionalProperties?: JsonSchema | boolean;
+      minProperties?: number;
+    };
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const validateJson = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  const actual = describe(value);
+  if (actual !== schema.type) return [`${path}: expected ${schema.type}, got ${actual}`];
+
+  const errors: string[] = [];
+  switch (schema.type) {
+    case 'string': {
+      const str = value as string;
+      if (schema.minLength !== undefined && str.trim().length < schema.minLength) {
+        errors.push(`${path}: must not be empty`);
+      }
+      if (schema.enum && !schema.enum.includes(str)) {
+        errors.push(`${path}: must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}`);
+      }
+      break;
+    }
+    case 'number': {
+      const num = value as number;
+      if (schema.minimum !== undefined && num < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && num > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+      break;
+    }
+    case 'array': {
+      const arr = value as unknown[];
+      if (schema.minItems !== undefined && arr.length < schema.minItems) {
+        errors.push(`${path}: must contain at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        arr.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+      }
+      break;
+    }
+    case 'object': {
+      const obj = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+      for (const key of schema.required || []) {
+        if (!(key in obj)) errors.push(`${path}.${key}: missing required property`);
+      }
+      if (schema.minProperties !== undefined && Object.keys(obj).length < schema.minProperties) {
+        errors.push(`${path}: must contain at least ${schema.minProperties} key(s)`);
+      }
+      for (const [key, child] of Object.entries(obj)) {
+        const childPath = `${path}.${key}`;
+        if (properties[key]) {
+          errors.push(...validateJson(child, properties[key], childPath));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${childPath}: unexpected property`);
+        } else if (schema.additionalProperties && schema.additionalProperties !== true) {
+          errors.push(...validateJson(child, schema.additionalProperties, childPath));
+        }
+      }
+      break;
+    }
+  }
+  return errors;
+};
+
+// --- Agent output schemas ---
+
+export type AgentOutputKind = 'architect' | 'content' | 'visuals' | 'review' | 'chapterMemory' | 'styleConfig';
+
+const SECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    title: { type: 'string', minLength: 1 },
+    level: { type: 'number', minimum: 1, maximum: 4 }
+  },
+  required: ['id', 'title', 'level']
+};
+
+// { "ID": "Markdown..." } — which IDs must be present is checked separately,
+// because missing IDs are re-requested one by one instead of repaired.
+const SECTION_MAP_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+  minProperties: 1
+};
+
+const SCORE_SCHEMA: JsonSchema = { type: 'number', minimum: 1, maximum: 10 };
+
+// { "ID": { "scores": {...}, "comments": [...] } } — like section maps, missing IDs are checked separately
+const REVIEW_MAP_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: {
+    type: 'object',
+    properties: {
+      scores: {
+        type: 'object',
+        properties: { depth: SCORE_SCHEMA, rigor: SCORE_SCHEMA, coherence: SCORE_SCHEMA, format: SCORE_SCHEMA },
+        required: ['depth', 'rigor', 'coherence', 'format']
+      },
+      comments: { type: 'array', items: { type: 'string', minLength: 1 } }
+    },
+    required: ['scores', 'comments']
+  },
+  minProperties: 1
+};
+
+const NOTE_LIST_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+// Thesis memory summary of one chapter
+const CHAPTER_MEMORY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { contributions: NOTE_LIST_SCHEMA, notation: NOTE_LIST_SCHEMA, datasets: NOTE_LIST_SCHEMA, results: NOTE_LIST_SCHEMA },
+  required: ['contributions', 'notation', 'datasets', 'results']
+};
+
+const FONT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    family: { type: 'string', minLength: 1 },
+    size: { type: 'number', minimum: 5, maximum: 72 },
+    bold: { type: 'boolean' },
+    align: { type: 'string', enum: ['center', 'left', 'right', 'justify'] }
+  },
+  required: ['family', 'size']
+};
+
+const STYLE_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    margins: {
+      type: 'object',
+      properties: {
+        top: { type: 'number', minimum: 0 },
+        bottom: { type: 'number', minimum: 0 },
+        left: { type: 'number', minimum: 0 },
+        right: { type: 'number', minimum: 0 }
+      },
+      required: ['top', 'bottom', 'left', 'right']
+    },
+    body: {
+      type: 'object',
+      properties: {
+        font: FONT_SCHEMA,
+        indent: { type: 'boolean' },
+        lineSpacing: { type: 'number', minimum: 1, maximum: 3 }
+      },
+      required: ['font', 'indent', 'lineSpacing']
+    },
+    headings: {
+      type: 'object',
+      properties: { h1: FONT_SCHEMA, h2: FONT_SCHEMA, h3: FONT_SCHEMA, h4: FONT_SCHEMA },
+      required: ['h1', 'h2', 'h3']
+    },
+    tables: {
+      type: 'object',
+      properties: { font: FONT_SCHEMA },
+      required: ['font']
+    },
+    headers: {
+      type: 'object',
+      properties: {
+        useOddEven: { type: 'boolean' },
+        oddText: { type: 'string' },
+        evenText: { type: 'string' }
+      },
+      required: ['useOddEven', 'oddText', 'evenText']
+    }
+  },
+  required: ['margins', 'body', 'headings', 'tables', 'headers']
+};
+
+export const AGENT_OUTPUT_SCHEMAS: Record<AgentOutputKind, JsonSchema> = {
+  architect: {
+    type: 'object',
+    properties: { sections: { type: 'array', items: SECTION_SCHEMA, minItems: 1 } },
+    required: ['sections']
+  },
+  content: SECTION_MAP_SCHEMA,
+  visuals: SECTION_MAP_SCHEMA,
+  review: REVIEW_MAP_SCHEMA,
+  chapterMemory: CHAPTER_MEMORY_SCHEMA,
+  styleConfig: STYLE_CONFIG_SCHEMA
+};
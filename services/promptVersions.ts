@@ -0,0 +1,95 @@
+import { Agent, PromptSlot, PromptVersion, StepPromptRecord } from "../types";
+import { BUILT_IN_PROMPTS, getBuiltInPrompt } from "./builtInPrompts";
+import { DEFAULT_USER_TEMPLATES, getDefaultUserTemplate } from "./userPromptTemplates";
+import { hashText } from "../utils/hash";
+
+// Editable agent prompts with an append-only version history. Every step run records the
+// version of each prompt it used, so an output can be traced back to the exact text.
+
+// A critic's selection is re-reviewed rather than rewritten, so it has no rewrite template
+export const getPromptSlots = (agent: Pick<Agent, 'kind'>): PromptSlot[] =>
+  agent.kind === 'critic' ? ['system', 'user']
+    : agent.kind === 'review' ? ['system', 'user', 'regenerate', 'visualsFix']
+    : ['system', 'user', 'regenerate'];
+
+export const getPromptText = (agent: Pick<Agent, 'kind' | 'systemPrompt' | 'userPromptTemplate' | 'regenerateTemplate' | 'visualsFixPrompt'>, slot: PromptSlot): string => {
+  switch (slot) {
+    case 'system': return agent.systemPrompt;
+    case 'user': return agent.userPromptTemplate || getDefaultUserTemplate(agent.kind);
+    case 'regenerate': return agent.regenerateTemplate || DEFAULT_USER_TEMPLATES.regenerate;
+    case 'visualsFix': return agent.visualsFixPrompt || BUILT_IN_PROMPTS.fixer_visuals;
+  }
+};
+
+export const getDefaultPrompt = (agent: Pick<Agent, 'kind' | 'builtInPrompts'>, slot: PromptSlot): string | undefined => {
+  if (slot === 'user') return getDefaultUserTemplate(agent.kind);
+  if (slot === 'regenerate') return DEFAULT_USER_TEMPLATES.regenerate;
+  return getBuiltInPrompt(agent.builtInPrompts?.[slot]);
+};
+
+export const getSlotVersions = (agent: Pick<Agent, 'promptVersions'>, slot: PromptSlot): PromptVersion[] =>
+  (agent.promptVersions || []).filter(v => v.slot === slot);
+
+export const findPromptVersion = (agent: Pick<Agent, 'promptVersions'>, id: string): PromptVersion | undefined =>
+  agent.promptVersions?.find(v => v.id === id);
+
+// "v3" = third saved version of its slot
+export const getVersionLabel = (agent: Pick<Agent, 'promptVersions'>, version: PromptVersion): string =>
+  `v${getSlotVersions(agent, version.slot).findIndex(v => v.id === version.id) + 1}`;
+
+// The content hash in the id makes equal texts recognisable across sessions
+const createVersion = (slot: PromptSlot, text: string, note?: string): PromptVersion => ({
+  id: `${slot}-${Date.now().toString(36)}-${hashText(text)}`,
+  slot,
+  text,
+  savedAt: new Date().toISOString(),
+  note
+});
+
+const slotPatch = (slot: PromptSlot, text: string): Partial<Agent> => {
+  switch (slot) {
+    case 'system': return { systemPrompt: text };
+    case 'user': return { userPromptTemplate: text };
+    case 'regenerate': return { regenerateTemplate: text };
+    case 'visualsFix': return { visualsFixPrompt: text };
+  }
+};
+
+// Sets a slot's text and appends it to the history. The text it replaces is recorded first if it
+// was never versioned, so the history always starts from what the agent originally ran with.
+export const commitPromptVersion = (
+  agent: Agent,
+  slot: PromptSlot,
+  text: string,
+  note?: string
+): Partial<Agent> => {
+  const versions = [...(agent.promptVersions || [])];
+  const slotVersions = getSlotVersions(agent, slot);
+  const current = getPromptText(agent, slot);
+  if (slotVersions.length === 0 || slotVersions[slotVersions.length - 1].text !== current) {
+    versions.push(createVersion(slot, current, slotVersions.length === 0 ? '初始版本' : '未记录的修改'));
+  }
+  if (text !== current) versions.push(createVersion(slot, text, note));
+  return { ...slotPatch(slot, text), promptVersions: versions };
+};
+
+// Versions the current text of every slot (if not versioned yet) and returns the run record
+export const snapshotPrompts = (agent: Agent): { promptVersions: PromptVersion[]; record: StepPromptRecord } => {
+  let versions = agent.promptVersions || [];
+  const versionIds: StepPromptRecord['versionIds'] = {};
+  for (const slot of getPromptSlots(agent)) {
+    const text = getPromptText(agent, slot);
+    const latest = getSlotVersions({ promptVersions: versions }, slot).pop();
+    if (latest && latest.text === text) {
+      versionIds[slot] = latest.id;
+    } else {
+      const version = createVersion(slot, text, latest ? '未记录的修改' : '初始版本');
+      versions = [...versions, version];
+      versionIds[slot] = version.id;
+    }
+  }
+  return {
+    promptVersions: versions,
+    record: { agentId: agent.id, agentName: agent.name, runAt: new Date().toISOString(), versionIds }
+  };
+};
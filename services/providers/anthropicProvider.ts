@@ -0,0 +1,120 @@
+import { ApiConfig } from "../../types";
+import { LLMProvider, LLMRequest, LLMResponse } from "./types";
+import { normalizeBaseUrl, postJson, getJson } from "./http";
+import { readSSE, isEventStream } from "./sse";
+import { toAlternatingTurns } from "./messages";
+import { LLMError, classifyHttpStatus, parseRetryAfter } from "../llmErrors";
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// Messages API requires max_tokens; long chapters need a generous budget
+const DEFAULT_MAX_TOKENS = 16000;
+
+const mapHttpError = async (response: Response): Promise<LLMError> => {
+  const { status } = response;
+  const errorText = await response.text();
+  const options = { status, retryAfterMs: parseRetryAfter(response.headers) };
+  if (status === 404) return new LLMError('auth', "404 Not Found. Check Base URL or model name.", options);
+  if (status === 401 || status === 403) return new LLMError('auth', `${status} Unauthorized. Check Anthropic API Key.`, options);
+  if (status === 429) return new LLMError('quota', `Anthropic Rate Limit Exceeded (429): ${errorText}`, options);
+  if (status === 529) return new LLMError('transient', `Anthropic API Overloaded (529): ${errorText}`, options);
+  return new LLMError(classifyHttpStatus(status), `Anthropic API Error (${status}): ${errorText}`, options);
+};
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic Messages API',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  defaultModel: 'claude-sonnet-4-5',
+  requiresApiKey: true,
+
+  listModels: async (config: ApiConfig): Promise<string[]> => {
+    let base = normalizeBaseUrl(config.baseUrl || anthropicProvider.defaultBaseUrl).replace(/\/messages$/, "");
+    if (!base.endsWith("/v1")) base = `${base}/v1`;
+    const data = await getJson(`${base}/models?limit=100`, {
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      "anthropic-dangerous-direct-browser-access": "true"
+    }, anthropicProvider.label);
+    return (data.data || []).map((m: any) => m.id).filter(Boolean);
+  },
+
+  call: async (request: LLMRequest, config: ApiConfig): Promise<LLMResponse> => {
+    if (!config.apiKey) throw new LLMError('auth', "API Key is missing for Anthropic. Please configure it in settings.");
+
+    let url = normalizeBaseUrl(config.baseUrl || anthropicProvider.defaultBaseUrl);
+    if (!url.endsWith("/messages")) {
+      url = url.endsWith("/v1") ? `${url}/messages` : `${url}/v1/messages`;
+    }
+
+    const headers: Record<string, string> = {
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for calls made directly from the browser
+      "anthropic-dangerous-direct-browser-access": "true"
+    };
+
+    const { system: systemPrompt, turns } = toAlternatingTurns(request.systemPrompt, request.messages);
+    // No native JSON flag in the Messages API, so the constraint goes into the system prompt
+    const system = request.jsonMode
+      ? `${systemPrompt}\n\nRespond with a single valid JSON object only. No prose, no code fences.`
+      : systemPrompt;
+
+    const body = {
+      model: config.modelName || anthropicProvider.defaultModel,
+      system,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      messages: turns,
+      ...(request.onChunk ? { stream: true } : {})
+    };
+
+    const { response, clearTimer } = await postJson(url, headers, body, anthropicProvider.label, request.signal);
+    try {
+      if (!response.ok) {
+        throw await mapHttpError(response);
+      }
+
+      if (request.onChunk && isEventStream(response) && response.body) {
+        const onChunk = request.onChunk;
+        let fullText = "";
+        const usage = { inputTokens: 0, outputTokens: 0 };
+        await readSSE(response, (data) => {
+          let event: any;
+          try {
+            event = JSON.parse(data);
+          } catch (e) {
+            return; // Ignore malformed events
+          }
+          if (event.type === 'message_start') {
+            usage.inputTokens = event.message?.usage?.input_tokens || 0;
+          } else if (event.type === 'message_delta') {
+            usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            fullText += event.delta.text;
+            onChunk(event.delta.text, fullText);
+          } else if (event.type === 'error') {
+            // Mid-stream errors are almost always `overloaded_error`
+            throw new LLMError('transient', `Anthropic Stream Error: ${event.error?.message || data}`);
+          }
+          return event.type === 'message_stop';
+        });
+        if (!fullText) throw new LLMError('malformed', "Anthropic API returned empty content");
+        return { text: fullText, usage: usage.inputTokens > 0 ? usage : undefined };
+      }
+
+      const data = await response.json();
+      const content = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join("");
+      if (!content) throw new LLMError('malformed', "Anthropic API returned empty content");
+      request.onChunk?.(content, content);
+      const usage = data.usage
+        ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 }
+        : undefined;
+      return { text: content, usage };
+    } finally {
+      clearTimer();
+    }
+  }
+};
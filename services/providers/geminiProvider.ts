@@ -0,0 +1,101 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiConfig } from "../../types";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderUsage } from "./types";
+import { LLMError, CancelledError, toLLMError } from "../llmErrors";
+import { toAlternatingTurns } from "./messages";
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+const parseUsage = (usageMetadata: any): ProviderUsage | undefined => {
+  if (!usageMetadata || typeof usageMetadata.promptTokenCount !== 'number') return undefined;
+  // Thinking tokens are billed as output
+  const outputTokens = (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0);
+  return { inputTokens: usageMetadata.promptTokenCount, outputTokens };
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultBaseUrl: '',
+  defaultModel: DEFAULT_MODEL,
+  // Falls back to the API_KEY environment variable
+  requiresApiKey: false,
+
+  listModels: async (config: ApiConfig): Promise<string[]> => {
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new LLMError('auth', "API_KEY is missing. Please configure Gemini API Key in settings.");
+    const ai = new GoogleGenAI({ apiKey });
+    const models: string[] = [];
+    try {
+      const pager = await ai.models.list();
+      for await (const model of pager) {
+        // Embedding / imagen models cannot answer generateContent
+        if (model.name && (!model.supportedActions || model.supportedActions.includes('generateContent'))) {
+          models.push(model.name.replace(/^models\//, ''));
+        }
+      }
+    } catch (e: any) {
+      throw toLLMError(e);
+    }
+    return models;
+  },
+
+  call: async (request: LLMRequest, config: ApiConfig): Promise<LLMResponse> => {
+    // The key from settings wins; fall back to the build-time env key
+    const apiKey = config.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new LLMError('auth', "API_KEY is missing. Please configure Gemini API Key in settings.");
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    // Gemini calls the assistant role "model"
+    const { system, turns } = toAlternatingTurns(request.systemPrompt, request.messages);
+    const contents = turns.map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: turn.content }]
+    }));
+
+    const params = {
+      model: config.modelName || DEFAULT_MODEL,
+      contents,
+      config: {
+        systemInstruction: system,
+        responseMimeType: request.jsonMode ? "application/json" : "text/plain",
+        temperature: request.temperature,
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {})
+      }
+    };
+
+    try {
+      if (request.onChunk) {
+        let fullText = "";
+        let usage: ProviderUsage | undefined;
+        const stream = await ai.models.generateContentStream(params);
+        for await (const chunk of stream) {
+          // usageMetadata is cumulative; the last chunk carries the final counts
+          usage = parseUsage(chunk.usageMetadata) || usage;
+          const delta = chunk.text || "";
+          if (!delta) continue;
+          fullText += delta;
+          request.onChunk(delta, fullText);
+        }
+        if (!fullText) throw new LLMError('malformed', "Gemini API returned empty content");
+        return { text: fullText, usage };
+      }
+
+      const response = await ai.models.generateContent(params);
+      if (!response.text) throw new LLMError('malformed', "Gemini API returned empty content");
+      return { text: response.text, usage: parseUsage(response.usageMetadata) };
+    } catch (e: any) {
+      if (request.signal?.aborted) throw new CancelledError();
+      const error = toLLMError(e);
+      if (!(error instanceof LLMError)) throw error;
+      if (error.kind === 'quota') {
+        error.message = `Gemini API Quota Exceeded (429). ${e.message || ''}`.trim();
+      } else if (error.kind === 'auth' && (error.status === 401 || error.status === 403)) {
+        error.message = `Gemini API Key rejected (${error.status}). Check API Key.`;
+      }
+      throw error;
+    }
+  }
+};
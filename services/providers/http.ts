@@ -0,0 +1,63 @@
+import { LLMError, CancelledError, classifyHttpStatus } from "../llmErrors";
+
+// 15-minute timeout for reasoning models
+const REQUEST_TIMEOUT_MS = 900000;
+
+export const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, "");
+
+// POSTs JSON with the shared timeout and turns fetch failures into readable errors.
+// HTTP status errors are left to the adapter so it can map them to its own messages.
+// The external signal (Stop button) aborts the same controller as the timeout.
+export const postJson = async (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  providerLabel: string,
+  signal?: AbortSignal
+): Promise<{ response: Response; clearTimer: () => void }> => {
+  if (signal?.aborted) throw new CancelledError();
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  // The controller stays attached until the body has been read, so streams can be stopped too
+  const clearTimer = () => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+    return { response, clearTimer };
+  } catch (e: any) {
+    clearTimer();
+    if (e.name === 'AbortError' && signal?.aborted) throw new CancelledError();
+    if (e.name === 'AbortError') {
+      throw new LLMError('transient', "Request timed out (>15 mins). The model took too long to think.");
+    }
+    if (e.name === 'TypeError' && e.message === 'Failed to fetch') {
+      throw new LLMError('transient', `Network Error: Could not connect to ${providerLabel}. Check CORS settings or Base URL.`);
+    }
+    throw e;
+  }
+};
+
+// GETs JSON from a listing endpoint (e.g. `/models`). Non-2xx answers become LLMErrors.
+export const getJson = async (url: string, headers: Record<string, string>, providerLabel: string): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: "GET", headers });
+  } catch (e: any) {
+    throw new LLMError('transient', `Network Error: Could not connect to ${providerLabel}. Check CORS settings or Base URL.`);
+  }
+  if (!response.ok) {
+    throw new LLMError(classifyHttpStatus(response.status), `${providerLabel} Error (${response.status}): ${await response.text()}`, { status: response.status });
+  }
+  return response.json();
+};
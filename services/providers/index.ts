@@ -0,0 +1,32 @@
+import { ApiConfig, LLMProviderId } from "../../types";
+import { registerProvider } from "./registry";
+import { openaiProvider } from "./openaiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { anthropicProvider } from "./anthropicProvider";
+import { ollamaProvider } from "./ollamaProvider";
+import { replayProvider } from "./replayProvider";
+
+// Built-in adapters. Additional providers can call registerProvider() at startup.
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(anthropicProvider);
+registerProvider(ollamaProvider);
+registerProvider(replayProvider);
+
+export { registerProvider, getProvider, listProviders } from "./registry";
+export type { LLMProvider, LLMRequest, LLMResponse, ProviderUsage } from "./types";
+
+// Sessions saved before providers existed only carry `useCustom`
+type LegacyApiConfig = Omit<ApiConfig, 'provider'> & { provider?: LLMProviderId; useCustom?: boolean };
+
+// Like the old client: the custom endpoint was only used with a key and URL, otherwise Gemini
+// with the API_KEY environment variable
+export const resolveProviderId = (config: LegacyApiConfig): LLMProviderId => {
+  if (config.provider) return config.provider;
+  return config.useCustom && config.apiKey && config.baseUrl ? 'openai' : 'gemini';
+};
+
+export const normalizeApiConfig = (config: LegacyApiConfig): ApiConfig => {
+  const { useCustom, ...rest } = config;
+  return { ...rest, provider: resolveProviderId(config) };
+};
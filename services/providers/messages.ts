@@ -0,0 +1,41 @@
+import { ChatMessage } from "../../types";
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface ConversationTurn {
+  role: ConversationRole;
+  content: string;
+}
+
+// Placeholder opening turn for conversations that start with the assistant (e.g. a greeting)
+const CONVERSATION_START = "(Conversation start)";
+
+// For APIs without an in-conversation system role (Anthropic, Gemini): `system` messages are
+// appended to the system prompt, consecutive turns of the same role are merged, and the
+// conversation is made to open with a user turn as both APIs require.
+export const toAlternatingTurns = (
+  systemPrompt: string,
+  messages: ChatMessage[]
+): { system: string; turns: ConversationTurn[] } => {
+  const systemParts = [systemPrompt];
+  const turns: ConversationTurn[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      systemParts.push(message.content);
+      continue;
+    }
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  if (turns.length > 0 && turns[0].role === 'assistant') {
+    turns.unshift({ role: 'user', content: CONVERSATION_START });
+  }
+
+  return { system: systemParts.filter(Boolean).join("\n\n"), turns };
+};
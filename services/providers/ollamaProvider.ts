@@ -0,0 +1,13 @@
+import { createOpenAICompatibleProvider } from "./openaiProvider";
+
+// Ollama and llama.cpp's server both expose an OpenAI-compatible endpoint under /v1.
+// No key is needed locally, and both honour `response_format: json_object`.
+export const ollamaProvider = createOpenAICompatibleProvider({
+  id: 'ollama',
+  label: 'Local Server (Ollama / llama.cpp)',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  defaultModel: 'qwen2.5:14b',
+  requiresApiKey: false,
+  nativeJsonMode: true,
+  streamUsage: true
+});
@@ -0,0 +1,125 @@
+import { ApiConfig, LLMProviderId } from "../../types";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderUsage } from "./types";
+import { normalizeBaseUrl, postJson, getJson } from "./http";
+import { readSSE, isEventStream } from "./sse";
+import { LLMError, classifyHttpStatus, parseRetryAfter } from "../llmErrors";
+
+interface OpenAICompatibleOptions {
+  id: LLMProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  // Send `response_format: json_object`. Many hosted proxies reject it, local servers support it.
+  nativeJsonMode: boolean;
+  // Ask for `stream_options.include_usage`. Older proxies reject unknown fields, so this is opt-in.
+  streamUsage: boolean;
+}
+
+const parseUsage = (usage: any): ProviderUsage | undefined => {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 };
+};
+
+const mapHttpError = async (label: string, response: Response): Promise<LLMError> => {
+  const { status } = response;
+  const errorText = await response.text();
+  const options = { status, retryAfterMs: parseRetryAfter(response.headers) };
+  if (status === 404) return new LLMError('auth', "404 Not Found. Check Base URL.", options);
+  if (status === 401 || status === 403) return new LLMError('auth', `${status} Unauthorized. Check API Key.`, options);
+  if (status === 429) return new LLMError('quota', `${label} Rate Limit / Quota Exceeded (429): ${errorText}`, options);
+  return new LLMError(classifyHttpStatus(status), `${label} Error (${status}): ${errorText}`, options);
+};
+
+// Shared implementation for every endpoint speaking the `/chat/completions` dialect
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => ({
+  id: options.id,
+  label: options.label,
+  defaultBaseUrl: options.defaultBaseUrl,
+  defaultModel: options.defaultModel,
+  requiresApiKey: options.requiresApiKey,
+
+  listModels: async (config: ApiConfig): Promise<string[]> => {
+    const base = normalizeBaseUrl(config.baseUrl || options.defaultBaseUrl).replace(/\/chat\/completions$/, "");
+    const headers: Record<string, string> = config.apiKey ? { "Authorization": `Bearer ${config.apiKey}` } : {};
+    const data = await getJson(`${base}/models`, headers, options.label);
+    return (data.data || []).map((m: any) => m.id).filter(Boolean);
+  },
+
+  call: async (request: LLMRequest, config: ApiConfig): Promise<LLMResponse> => {
+    if (options.requiresApiKey && !config.apiKey) {
+      throw new LLMError('auth', `API Key is missing for ${options.label}. Please configure it in settings.`);
+    }
+
+    let url = normalizeBaseUrl(config.baseUrl || options.defaultBaseUrl);
+    if (!url.endsWith("/chat/completions")) {
+      url = `${url}/chat/completions`;
+    }
+    const model = config.modelName || options.defaultModel;
+    console.log(`Using ${options.label}: ${model} at ${url}${request.onChunk ? " (stream)" : ""}`);
+
+    const headers: Record<string, string> = {};
+    if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+    const body = {
+      model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        ...request.messages
+      ],
+      temperature: request.temperature,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.jsonMode && options.nativeJsonMode ? { response_format: { type: "json_object" } } : {}),
+      ...(request.onChunk ? { stream: true, ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}) } : {})
+    };
+
+    const { response, clearTimer } = await postJson(url, headers, body, options.label, request.signal);
+    try {
+      if (!response.ok) {
+        throw await mapHttpError(options.label, response);
+      }
+
+      // Some proxies ignore `stream: true` and answer with plain JSON, so check the content type
+      if (request.onChunk && isEventStream(response) && response.body) {
+        const onChunk = request.onChunk;
+        let fullText = "";
+        let usage: ProviderUsage | undefined;
+        await readSSE(response, (data) => {
+          if (data === "[DONE]") return true;
+          try {
+            const event = JSON.parse(data);
+            const delta = event.choices?.[0]?.delta?.content;
+            if (delta) {
+              fullText += delta;
+              onChunk(delta, fullText);
+            }
+            // Servers that report usage while streaming put it on the final chunk
+            usage = parseUsage(event.usage) || usage;
+          } catch (e) {
+            // Ignore keep-alive comments and malformed events
+          }
+        });
+        if (!fullText) throw new LLMError('malformed', `${options.label} returned empty content`);
+        return { text: fullText, usage };
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) throw new LLMError('malformed', `${options.label} returned empty content`);
+      request.onChunk?.(content, content);
+      return { text: content, usage: parseUsage(data.usage) };
+    } finally {
+      clearTimer();
+    }
+  }
+});
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI-Compatible API',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o',
+  requiresApiKey: true,
+  nativeJsonMode: false,
+  streamUsage: false
+});
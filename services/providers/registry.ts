@@ -0,0 +1,16 @@
+import { LLMProviderId } from "../../types";
+import { LLMProvider } from "./types";
+
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+export const registerProvider = (provider: LLMProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: LLMProviderId): LLMProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown LLM provider: ${id}`);
+  return provider;
+};
+
+export const listProviders = (): LLMProvider[] => Array.from(providers.values());
@@ -0,0 +1,30 @@
+import { LLMProvider, LLMRequest, LLMResponse } from "./types";
+import { LLMError } from "../llmErrors";
+import { computeRequestKey, takeReplayEntry, getReplayStatus } from "../transcript";
+
+// Serves responses from a loaded transcript instead of the network. Used for offline demos,
+// reproducing bug reports from a colleague's session and deterministic test runs.
+export const replayProvider: LLMProvider = {
+  id: 'replay',
+  label: 'Replay (Transcript)',
+  defaultBaseUrl: '',
+  defaultModel: 'transcript',
+  requiresApiKey: false,
+  // Replay order matters for repeated identical requests, so bypass the response cache
+  cacheable: false,
+
+  call: async (request: LLMRequest): Promise<LLMResponse> => {
+    if (!getReplayStatus().loaded) {
+      throw new LLMError('auth', "No transcript loaded. Load a transcript file in settings to use the replay provider.");
+    }
+
+    const key = await computeRequestKey(request.systemPrompt, request.messages, request.jsonMode);
+    const entry = takeReplayEntry(key);
+    if (!entry) {
+      throw new LLMError('auth', `Transcript has no recorded response for this request (key ${key.substring(0, 12)}).`);
+    }
+
+    request.onChunk?.(entry.response, entry.response);
+    return { text: entry.response, usage: entry.usage };
+  }
+};
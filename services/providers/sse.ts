@@ -0,0 +1,29 @@
+// Reads a Server-Sent Events body and hands every `data:` payload to onEvent.
+// Returns early when onEvent returns true (e.g. on an OpenAI `[DONE]` marker).
+export const readSSE = async (
+  response: Response,
+  onEvent: (data: string) => boolean | void
+): Promise<void> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by newlines; keep the trailing partial line in the buffer
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (!line.startsWith("data:")) continue;
+      if (onEvent(line.slice(5).trim())) return;
+    }
+  }
+};
+
+export const isEventStream = (response: Response) =>
+  (response.headers.get("content-type") || "").includes("text/event-stream");
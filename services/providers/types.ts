@@ -0,0 +1,42 @@
+import { ApiConfig, ChatMessage, LLMProviderId } from "../../types";
+
+// Normalized request handed to every provider adapter by callLLM
+export interface LLMRequest {
+  systemPrompt: string;
+  // Conversation in order; the last message is the current request
+  messages: ChatMessage[];
+  jsonMode: boolean;
+  temperature: number;
+  // Output token cap; adapters fall back to their own default when unset
+  maxTokens?: number;
+  // When set, the adapter streams and reports each text delta
+  onChunk?: (delta: string, fullText: string) => void;
+  // Run-scoped cancellation; adapters abort the in-flight request when it fires
+  signal?: AbortSignal;
+}
+
+// Token counts as reported by the provider
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Undefined when the provider / proxy does not report usage
+  usage?: ProviderUsage;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  // Shown as placeholder / used when the config leaves the field empty
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  // Set to false for providers whose answers must never be served from the response cache
+  cacheable?: boolean;
+  call: (request: LLMRequest, config: ApiConfig) => Promise<LLMResponse>;
+  // Model IDs offered by the endpoint; omitted when the provider has no listing
+  listModels?: (config: ApiConfig) => Promise<string[]>;
+}
@@ -0,0 +1,77 @@
+import { LLMError, LLMErrorKind, CancelledError, isCancelledError, isRetryableError, toLLMError } from "./llmErrors";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Error kinds worth retrying; defaults to quota + transient
+  retryKinds?: LLMErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+export interface RetryAttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: LLMError;
+}
+
+// Backoff sleep that ends early (with a CancelledError) when the run is stopped
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new CancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Full-jitter exponential backoff. A server-provided Retry-After wins as the lower bound; a
+// wait longer than maxDelayMs is not sat out (see withRetry), so the delay never exceeds it.
+const computeDelay = (attempt: number, policy: RetryPolicy, error: LLMError): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(policy.maxDelayMs, Math.max(error.retryAfterMs, jittered / 4));
+  }
+  return jittered;
+};
+
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (info: RetryAttemptInfo) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  let attempt = 1;
+  while (true) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await fn(attempt);
+    } catch (e: any) {
+      // An aborted request surfaces as AbortError / timeout error from the adapter
+      if (isCancelledError(e) || signal?.aborted) throw isCancelledError(e) ? e : new CancelledError();
+      const error = toLLMError(e);
+      if (!(error instanceof LLMError)) throw error;
+      const retryable = policy.retryKinds ? policy.retryKinds.includes(error.kind) : isRetryableError(error);
+      if (!retryable || attempt >= policy.maxAttempts) throw error;
+      // Retrying earlier than the server asked only fails again; give up so the caller can
+      // fall back to another provider instead of stalling the run
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxDelayMs) throw error;
+
+      const delayMs = computeDelay(attempt, policy, error);
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+      attempt++;
+    }
+  }
+};
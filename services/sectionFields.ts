@@ -0,0 +1,72 @@
+import { Agent, ExtraFieldSpec, MergeMode, ThesisSection } from "../types";
+
+// Reading, writing and merging the text fields agents produce: the built-in `content` and
+// `visuals`, and the named extra fields declared by custom agents.
+
+export interface SectionFieldTarget {
+  field: 'content' | 'visuals' | 'extra';
+  // Key in ThesisSection.extraFields when field is 'extra'
+  extraKey?: string;
+}
+
+export const EXTRA_FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export const readSectionField = (section: ThesisSection, target: SectionFieldTarget): string | undefined =>
+  target.field === 'extra' ? section.extraFields?.[target.extraKey!] : section[target.field];
+
+export const writeSectionField = (section: ThesisSection, target: SectionFieldTarget, value: string) => {
+  if (target.field === 'extra') {
+    section.extraFields = { ...section.extraFields, [target.extraKey!]: value };
+  } else {
+    section[target.field] = value;
+  }
+};
+
+// --- Merging ---
+
+const annotationHeader = (label: string) => `> **[${label}]**`;
+
+// Annotations are single blockquote paragraphs opened by the agent's label, so a rerun can
+// find and replace its own annotation instead of stacking a second one
+const stripAnnotation = (text: string, label: string): string =>
+  text.split(/\n{2,}/).filter(p => !p.startsWith(annotationHeader(label))).join("\n\n").trim();
+
+const toAnnotation = (text: string, label: string): string =>
+  `${annotationHeader(label)} ${text.trim().split('\n').map((line, i) => i === 0 ? line : `> ${line}`.trimEnd()).join('\n')}`;
+
+export const hasAnnotation = (text: string | undefined, label: string): boolean =>
+  !!text && text.split(/\n{2,}/).some(p => p.startsWith(annotationHeader(label)));
+
+export const mergeFieldText = (existing: string | undefined, incoming: string, mode: MergeMode, label: string): string => {
+  const base = (existing || '').trim();
+  switch (mode) {
+    case 'append':
+      return base ? `${base}\n\n${incoming.trim()}` : incoming.trim();
+    case 'annotate': {
+      const rest = stripAnnotation(base, label);
+      const annotation = toAnnotation(incoming, label);
+      return rest ? `${rest}\n\n${annotation}` : annotation;
+    }
+    default:
+      return incoming;
+  }
+};
+
+// --- Declared fields ---
+
+// Extra fields declared by the workflow's agents; the first declaration of a key wins
+export const collectExtraFields = (agents: Pick<Agent, 'extraField' | 'outputField'>[]): ExtraFieldSpec[] => {
+  const specs: ExtraFieldSpec[] = [];
+  for (const agent of agents) {
+    if (agent.outputField !== 'extra' || !agent.extraField) continue;
+    if (!specs.some(s => s.key === agent.extraField!.key)) specs.push(agent.extraField);
+  }
+  return specs;
+};
+
+// Markdown for the extra fields of one section, as exported after its content and visuals
+export const renderExtraFieldsMarkdown = (section: ThesisSection, specs: ExtraFieldSpec[]): string =>
+  specs
+    .filter(spec => spec.exported && section.extraFields?.[spec.key]?.trim())
+    .map(spec => `**${spec.label}**\n\n${section.extraFields![spec.key].trim()}\n\n`)
+    .join('');
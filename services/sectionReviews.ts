@@ -0,0 +1,64 @@
+import { Agent, ReviewCriterion, ReviewPolicy, SectionReview, ThesisSection, ThesisStructure } from "../types";
+
+// Scores and history of the critic's review → revise loop, and how they are shown.
+
+export const REVIEW_CRITERIA: ReviewCriterion[] = ['depth', 'rigor', 'coherence', 'format'];
+
+export const REVIEW_CRITERION_LABELS: Record<ReviewCriterion, string> = {
+  depth: '深度',
+  rigor: '严谨性',
+  coherence: '连贯性',
+  format: '规范性'
+};
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = { threshold: 7, maxRounds: 2 };
+
+export const resolveReviewPolicy = (policy?: Partial<ReviewPolicy>): ReviewPolicy => ({
+  ...DEFAULT_REVIEW_POLICY,
+  ...policy,
+  threshold: Math.min(10, Math.max(1, policy?.threshold ?? DEFAULT_REVIEW_POLICY.threshold)),
+  maxRounds: Math.max(0, Math.floor(policy?.maxRounds ?? DEFAULT_REVIEW_POLICY.maxRounds))
+});
+
+// The agent a critic sends weak sections back to
+export const resolveReviser = <T extends Pick<Agent, 'id' | 'kind'>>(critic: Pick<Agent, 'reviewPolicy'>, agents: T[]): T | undefined => {
+  const reviserId = critic.reviewPolicy?.reviserId;
+  return (reviserId && agents.find(a => a.id === reviserId && a.kind === 'content'))
+    || agents.find(a => a.kind === 'content');
+};
+
+export const computeOverallScore = (scores: Record<ReviewCriterion, number>): number =>
+  Math.round(REVIEW_CRITERIA.reduce((sum, c) => sum + scores[c], 0) / REVIEW_CRITERIA.length * 10) / 10;
+
+export const getLatestReview = (section: ThesisSection): SectionReview | undefined =>
+  section.reviews?.[section.reviews.length - 1];
+
+// Comments of one round as the instruction handed to the reviser
+export const buildRevisionInstruction = (review: SectionReview): string => {
+  const scores = REVIEW_CRITERIA.map(c => `${REVIEW_CRITERION_LABELS[c]} ${review.scores[c]}`).join('，');
+  return `评审得分 ${review.overall}/10 (${scores})。请逐条解决以下评审意见，在现有内容基础上修改：\n${review.comments.map((c, i) => `${i + 1}. ${c}`).join('\n')}`;
+};
+
+// Markdown summary of a critic run, kept as the step's snapshot
+export const renderReviewReport = (structure: ThesisStructure, policy: ReviewPolicy): string => {
+  const reviewed = structure.filter(s => s.reviews && s.reviews.length > 0);
+  let md = `# 评审报告\n\n阈值 ${policy.threshold} 分，每个小节最多修订 ${policy.maxRounds} 轮。\n\n`;
+  if (reviewed.length === 0) return md + "没有可评审的小节。\n";
+
+  md += `| 小节 | 轮次 | 首轮得分 | 最终得分 | 结果 |\n|---|---|---|---|---|\n`;
+  reviewed.forEach(s => {
+    const first = s.reviews![0];
+    const last = getLatestReview(s)!;
+    const result = last.passed ? '通过' : '未达标';
+    md += `| ${s.title.replace(/^#+\s*/, '')} | ${s.reviews!.length} | ${first.overall} | ${last.overall} | ${result} |\n`;
+  });
+
+  const failing = reviewed.filter(s => !getLatestReview(s)!.passed);
+  if (failing.length > 0) {
+    md += `\n## 仍未达标的小节\n\n`;
+    failing.forEach(s => {
+      md += `### ${s.title.replace(/^#+\s*/, '')}\n\n${getLatestReview(s)!.comments.map(c => `- ${c}`).join('\n')}\n\n`;
+    });
+  }
+  return md;
+};
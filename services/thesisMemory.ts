@@ -0,0 +1,111 @@
+import { ApiConfig, ChapterMemory, ThesisStructure } from "../types";
+import { estimateTokens } from "../utils/tokenEstimator";
+import { hashText } from "../utils/hash";
+import { Chapter, groupByChapter, getChapterSections, findChaptersOf } from "./chapters";
+
+// Thesis memory: every written chapter keeps a compact summary on its level-1 section. Prompts for
+// other chapters get the relevant parts of those summaries, cut to a token budget, so later
+// chapters build on what came before instead of contradicting or repeating it.
+
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 1500;
+
+export type MemoryFacet = 'contributions' | 'notation' | 'datasets' | 'results';
+
+export const MEMORY_FACETS: MemoryFacet[] = ['contributions', 'notation', 'datasets', 'results'];
+
+export const MEMORY_FACET_LABELS: Record<MemoryFacet, string> = {
+  contributions: '贡献',
+  notation: '符号',
+  datasets: '数据',
+  results: '结果'
+};
+
+export const resolveMemoryBudget = (apiConfig?: ApiConfig): number =>
+  Math.max(0, apiConfig?.memoryTokenBudget ?? DEFAULT_MEMORY_TOKEN_BUDGET);
+
+// Chapters that look back on the whole thesis rather than build on the chapters before them
+const SUMMARY_CHAPTER_KEYWORDS = ["摘要", "Abstract", "总结", "结论", "Conclusion", "展望", "Outlook"];
+
+export const isSummaryChapter = (title: string): boolean => {
+  const titleLower = title.toLowerCase();
+  return SUMMARY_CHAPTER_KEYWORDS.some(k => titleLower.includes(k.toLowerCase()));
+};
+
+export const getChapterText = (chapter: Chapter): string =>
+  getChapterSections(chapter).map(s => s.content?.trim()).filter(Boolean).join('\n\n');
+
+// A chapter is summarised once every section has body text
+export const isChapterWritten = (chapter: Chapter): boolean =>
+  getChapterSections(chapter).every(s => !!s.content?.trim());
+
+// Written chapters with no summary, or one made from text that has changed since
+export const needsMemoryUpdate = (chapter: Chapter): boolean =>
+  isChapterWritten(chapter) && chapter.root.memory?.sourceHash !== hashText(getChapterText(chapter));
+
+export const createChapterMemory = (chapter: Chapter, notes: Pick<ChapterMemory, MemoryFacet>): ChapterMemory => ({
+  contributions: notes.contributions,
+  notation: notes.notation,
+  datasets: notes.datasets,
+  results: notes.results,
+  sourceHash: hashText(getChapterText(chapter)),
+  updatedAt: new Date().toISOString()
+});
+
+interface MemoryItem {
+  chapterIndex: number;
+  facet: MemoryFacet;
+  text: string;
+}
+
+// Summaries of the other chapters for a prompt about `sectionIds` (one batch, possibly spanning chapters).
+// Items are picked by priority until the budget is used up: notation of earlier chapters (it must
+// stay consistent), their contributions and results nearest first, their datasets, and finally the
+// contributions of later chapters that are already written (rewrites, regeneration). Conclusions
+// and abstracts treat every other chapter as earlier. Returns '' when nothing fits.
+export const buildMemoryContext = (structure: ThesisStructure, sectionIds: string[], budgetTokens: number): string => {
+  if (budgetTokens <= 0) return '';
+  const chapters = groupByChapter(structure);
+  const chapterIds = findChaptersOf(structure, sectionIds).map(c => c.root.id);
+  const own = chapters.map((c, i) => chapterIds.includes(c.root.id) ? i : -1).filter(i => i >= 0);
+  if (own.length === 0) return '';
+  const position = Math.min(...own);
+  const looksBack = own.every(i => isSummaryChapter(chapters[i].root.title));
+
+  const others = chapters.map((chapter, index) => ({ chapter, index })).filter(({ chapter, index }) => !own.includes(index) && chapter.root.memory);
+  const earlier = others.filter(({ index }) => looksBack || index < position).sort((a, b) => b.index - a.index);
+  const later = others.filter(({ index }) => !looksBack && index > position);
+
+  const itemsOf = (list: typeof others, facet: MemoryFacet): MemoryItem[] =>
+    list.flatMap(({ chapter, index }) => chapter.root.memory![facet].map(text => ({ chapterIndex: index, facet, text })));
+  const candidates: MemoryItem[] = [
+    ...itemsOf([...earlier].reverse(), 'notation'),
+    ...itemsOf(earlier, 'contributions'),
+    ...itemsOf(earlier, 'results'),
+    ...itemsOf(earlier, 'datasets'),
+    ...itemsOf(later, 'contributions')
+  ];
+
+  // Greedy fill; an item that does not fit is skipped so shorter ones after it can still be used
+  const picked: MemoryItem[] = [];
+  const headed = new Set<number>();
+  let used = 0;
+  for (const item of candidates) {
+    const heading = headed.has(item.chapterIndex) ? 0 : estimateTokens(chapters[item.chapterIndex].root.title) + 4;
+    const cost = heading + estimateTokens(item.text) + 4;
+    if (used + cost > budgetTokens) continue;
+    used += cost;
+    headed.add(item.chapterIndex);
+    picked.push(item);
+  }
+  if (picked.length === 0) return '';
+
+  // Rendered per chapter in document order
+  return Array.from(headed).sort((a, b) => a - b).map(index => {
+    const title = chapters[index].root.title.replace(/^#+\s*/, '');
+    const lines = MEMORY_FACETS.flatMap(facet => {
+      const texts = picked.filter(item => item.chapterIndex === index && item.facet === facet).map(item => item.text);
+      return texts.length > 0 ? [`- ${MEMORY_FACET_LABELS[facet]}: ${texts.join('；')}`] : [];
+    });
+    return `【${title}】${index > position && !looksBack ? ' (后续章节)' : ''}\n${lines.join('\n')}`;
+  }).join('\n');
+};
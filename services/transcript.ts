@@ -0,0 +1,102 @@
+import { LLMProviderId, ChatMessage } from "../types";
+import { ProviderUsage } from "./providers";
+
+// Record-and-replay of LLM traffic. While recording, callLLM appends every request/response
+// pair to the active transcript. A saved transcript can be loaded into the `replay` provider,
+// which answers the same requests deterministically without network access.
+
+export interface TranscriptEntry {
+  // Hash of systemPrompt + messages + jsonMode; model settings are deliberately left out
+  requestKey: string;
+  provider: LLMProviderId;
+  model: string;
+  systemPrompt: string;
+  messages: ChatMessage[];
+  jsonMode: boolean;
+  response: string;
+  usage?: ProviderUsage;
+  fromCache: boolean;
+  timestamp: string;
+}
+
+export interface Transcript {
+  version: 1;
+  createdAt: string;
+  entries: TranscriptEntry[];
+}
+
+let activeRecording: Transcript | null = null;
+
+export const startRecording = () => {
+  activeRecording = { version: 1, createdAt: new Date().toISOString(), entries: [] };
+};
+
+export const stopRecording = (): Transcript | null => {
+  const transcript = activeRecording;
+  activeRecording = null;
+  return transcript;
+};
+
+export const isRecording = () => activeRecording !== null;
+
+export const computeRequestKey = async (systemPrompt: string, messages: ChatMessage[], jsonMode: boolean): Promise<string> => {
+  const data = new TextEncoder().encode(JSON.stringify({ systemPrompt, messages, jsonMode }));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const recordExchange = async (entry: Omit<TranscriptEntry, 'requestKey' | 'timestamp'>) => {
+  if (!activeRecording) return;
+  const recording = activeRecording;
+  const requestKey = await computeRequestKey(entry.systemPrompt, entry.messages, entry.jsonMode);
+  recording.entries.push({ ...entry, requestKey, timestamp: new Date().toISOString() });
+};
+
+export const parseTranscript = (raw: string): Transcript => {
+  const json = JSON.parse(raw);
+  if (json?.version !== 1 || !Array.isArray(json.entries)) {
+    throw new Error("Invalid transcript file");
+  }
+  return json as Transcript;
+};
+
+// --- Replay state ---
+
+let replayQueues: Map<string, TranscriptEntry[]> | null = null;
+let replaySize = 0;
+
+// Identical requests are answered in the order they were recorded
+export const loadReplayTranscript = (transcript: Transcript) => {
+  replayQueues = new Map();
+  for (const entry of transcript.entries) {
+    const queue = replayQueues.get(entry.requestKey) || [];
+    queue.push(entry);
+    replayQueues.set(entry.requestKey, queue);
+  }
+  replaySize = transcript.entries.length;
+};
+
+export const getReplayStatus = () => ({
+  loaded: replayQueues !== null,
+  total: replaySize,
+  remaining: replayQueues ? Array.from(replayQueues.values()).reduce((n, q) => n + q.length, 0) : 0
+});
+
+export const takeReplayEntry = (requestKey: string): TranscriptEntry | undefined => {
+  const queue = replayQueues?.get(requestKey);
+  if (!queue || queue.length === 0) return undefined;
+  // Keep the last answer around so repeated replays of the same request keep working
+  return queue.length > 1 ? queue.shift() : queue[0];
+};
+
+export const downloadTranscript = (transcript: Transcript, name: string = "thesis_forge_transcript") => {
+  const blob = new Blob([JSON.stringify(transcript, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name}_${new Date().getTime()}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
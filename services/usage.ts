@@ -0,0 +1,59 @@
+import { ModelPrice, PriceTable, UsageRecord, UsageSummary } from "../types";
+
+// Public list prices (USD per 1M tokens). Editable in the usage panel; matched by model-name prefix.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-3-pro': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'claude-sonnet': { input: 3, output: 15 },
+  'claude-haiku': { input: 1, output: 5 },
+  'claude-opus': { input: 5, output: 25 }
+};
+
+// Exact match first, then the longest matching prefix (so "gpt-4o-mini" beats "gpt-4o")
+export const findModelPrice = (model: string, table: PriceTable): ModelPrice | undefined => {
+  if (table[model]) return table[model];
+  const key = Object.keys(table)
+    .filter(k => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+};
+
+export const computeCost = (record: { model: string; inputTokens: number; outputTokens: number }, table: PriceTable): number => {
+  const price = findModelPrice(record.model, table);
+  if (!price) return 0;
+  return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export const EMPTY_USAGE: UsageSummary = { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimated: false };
+
+export const summarizeUsage = (records: UsageRecord[], table: PriceTable): UsageSummary =>
+  records.reduce<UsageSummary>((acc, r) => ({
+    calls: acc.calls + 1,
+    inputTokens: acc.inputTokens + r.inputTokens,
+    outputTokens: acc.outputTokens + r.outputTokens,
+    cost: acc.cost + computeCost(r, table),
+    estimated: acc.estimated || r.estimated
+  }), EMPTY_USAGE);
+
+export const groupUsage = (
+  records: UsageRecord[],
+  table: PriceTable,
+  keyOf: (r: UsageRecord) => string
+): Record<string, UsageSummary> => {
+  const groups: Record<string, UsageRecord[]> = {};
+  for (const r of records) {
+    const key = keyOf(r);
+    (groups[key] = groups[key] || []).push(r);
+  }
+  return Object.fromEntries(Object.entries(groups).map(([k, rs]) => [k, summarizeUsage(rs, table)]));
+};
+
+export const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+export const formatCost = (usd: number) => usd < 0.01 && usd > 0 ? `<$0.01` : `$${usd.toFixed(2)}`;
@@ -0,0 +1,140 @@
+import { AgentKind } from "../types";
+import { renderTemplate, TemplateVariables } from "../utils/promptTemplate";
+
+// User-prompt templates (see utils/promptTemplate for the syntax). Every agent owns the template
+// of its main pass (Agent.userPromptTemplate); these are the defaults per kind, plus the partials
+// all templates can include.
+
+export type UserTemplateKind = 'chapter' | 'architect' | 'review' | 'regenerate';
+
+export const PROMPT_PARTIALS: Record<string, string> = {
+  context: `### 上下文
+主题: {{topic}}
+领域: {{field}}
+侧重点: {{specificFocus}}
+`,
+
+  previousChapter: `{{#if previousChapterSummary}}
+### 论文记忆
+以下是论文其他章节的要点，请保持术语、符号和论述的一致，不要重复已写过的内容:
+{{previousChapterSummary}}
+{{/if}}`,
+
+  neighbours: `{{#if neighbourContext}}
+### 相邻小节 (仅供衔接，不要改写或重复)
+{{neighbourContext}}
+{{/if}}`,
+
+  jsonEscaping: `**转义规则**: JSON 字符串内容必须正确转义双引号和换行符。`,
+
+  fieldRules: `{{#if isExtra}}- **仅生成「{{fieldLabel}}」**: 按系统提示词为每个小节生成该字段的内容，使用 Markdown 格式。
+- **严禁重复正文**: 不要复述章节正文，也不要包含章节标题。{{else}}{{#if isVisuals}}- **仅生成图表与描述**: 仅输出 Markdown 表格、数据矩阵或图表占位符 (e.g. > [图 x.x] ...)。
+- **包含描述**: 每个图表后必须跟一段对图表的简要分析或描述。
+- **严禁生成普通正文**: 不要重复生成章节的常规正文文本。
+- **严禁生成标题**: 不要包含章节标题。{{else}}- 每个ID的内容尽量详实，包含理论推导或实验数据。
+- 使用 Markdown 格式。
+- **数学公式**: 必须使用 LaTeX 格式。行内公式使用 $...$，独立公式使用 $$...$$。
+- **纯文本**: 严禁生成 Markdown 表格或图表占位符。专注于文字叙述。
+- **禁止重复标题**: 内容中不要包含章节标题本身 (e.g., 不要写 "# 1.1 Intro")，直接写正文。{{/if}}{{/if}}`
+};
+
+export const DEFAULT_USER_TEMPLATES: Record<UserTemplateKind, string> = {
+  // Content, visuals, transform, custom and review agents: one chapter (or batch) per call
+  chapter: `{{> context}}
+{{> previousChapter}}
+{{> neighbours}}
+### 目标章节
+**{{chapterTitle}}**
+包含以下小节:
+{{sectionList}}
+
+### 任务要求
+请一次性为上述**所有**小节ID生成内容。{{#if rewrite}}
+已有"现有内容"的小节，请在其基础上按系统提示词改写，返回改写后的完整内容。{{/if}}
+
+### 约束与格式
+1. **JSON 输出**: 必须返回 JSON 对象: { "ID": "Markdown内容..." }
+2. {{> jsonEscaping}}
+3. **内容要求**:
+{{> fieldRules}}
+
+### 思考与执行
+1. {{#if isExtra}}为每个小节生成「{{fieldLabel}}」。{{else}}{{#if isVisuals}}为每个小节设计图表占位符或数据表。{{else}}为每个小节撰写连贯的学术正文(不带标题)。{{/if}}{{/if}}
+2. 确保所有ID都有对应的内容。
+3. 返回 JSON。
+`,
+
+  architect: `### 输入数据
+- 领域: {{field}}
+- 主题: {{topic}}
+- 侧重点 (Context): {{specificFocus}}
+
+### 任务步骤
+1. 分析主题和侧重点。
+2. 设计一套标准的硕士论文结构（通常 5-7 章）。
+3. **重点检查**：确保第 3 章及之后的创新点章节，每一章都包含完整的“理论+实验”。不要创建独立的“实验章”。
+4. 为每一节生成唯一的 ID。
+5. 返回 JSON 数据。
+`,
+
+  review: `{{> context}}
+{{> previousChapter}}
+### 待评审章节
+**{{chapterTitle}}**
+{{sectionList}}
+
+### 任务要求
+请为上述**所有**小节评分并给出评审意见。
+
+### 约束与格式
+1. **JSON 输出**: 必须返回 JSON 对象: { "ID": { "scores": { "depth": 1-10, "rigor": 1-10, "coherence": 1-10, "format": 1-10 }, "comments": ["意见..."] } }
+2. **评审意见**: 每条意见指出一个具体问题及修改方向；小节质量很高时 comments 可以为空数组。
+3. {{> jsonEscaping}}
+`,
+
+  // Rewriting selected sections (user feedback or critic comments)
+  regenerate: `### 任务类型: 内容重写 / 优化
+{{> context}}
+{{> previousChapter}}
+### 目标小节
+{{sectionList}}
+
+### 用户具体指令 (User Feedback)
+{{#if userInstruction}}用户对这部分内容/结构提出了修改意见: "{{userInstruction}}"。
+请严格根据此意见进行修改。{{else}}用户觉得这部分不满意，请重新生成优化。{{/if}}
+
+### 任务要求
+请一次性为上述**所有**小节ID生成内容。
+
+### 约束与格式
+1. **JSON 输出**: 必须返回 JSON 对象: { "ID": "Value..." }
+2. {{> jsonEscaping}}
+{{#if isArchitect}}3. **架构师模式 (Structure Refinement)**:
+- 你的任务是**修改章节标题**或**调整结构**。
+- 返回的 JSON Value 应该是**新的标题字符串** (New Title)。
+- 如果需要，你可以微调标题的层级标记 (如 ## 3.1)。
+- 严禁生成正文内容。只返回标题。{{else}}3. **内容要求**:
+{{> fieldRules}}{{/if}}
+
+### 思考与执行
+1. 根据用户指令和模式类型生成 JSON。
+2. 确保所有ID都有对应的结果。
+3. 返回 JSON。
+`
+};
+
+// Variables each template is rendered with, listed in the prompt editor
+export const USER_TEMPLATE_VARIABLES: Record<UserTemplateKind, string[]> = {
+  chapter: ['topic', 'field', 'specificFocus', 'chapterTitle', 'sectionList', 'previousChapterSummary', 'neighbourContext', 'rewrite', 'isVisuals', 'isExtra', 'fieldLabel'],
+  architect: ['topic', 'field', 'specificFocus'],
+  review: ['topic', 'field', 'specificFocus', 'chapterTitle', 'sectionList', 'previousChapterSummary'],
+  regenerate: ['topic', 'field', 'specificFocus', 'sectionList', 'previousChapterSummary', 'userInstruction', 'isArchitect', 'isVisuals', 'isExtra', 'fieldLabel']
+};
+
+export const getUserTemplateKind = (kind: AgentKind): UserTemplateKind =>
+  kind === 'structure' ? 'architect' : kind === 'critic' ? 'review' : 'chapter';
+
+export const getDefaultUserTemplate = (kind: AgentKind): string => DEFAULT_USER_TEMPLATES[getUserTemplateKind(kind)];
+
+export const renderUserPrompt = (template: string, variables: TemplateVariables): string =>
+  renderTemplate(template, variables, PROMPT_PARTIALS);
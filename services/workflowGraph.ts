@@ -0,0 +1,210 @@
+import { Agent, GapPolicy, StepCondition, ThesisSection, ThesisStructure } from "../types";
+import { isVisualsExemptChapter } from "./chapters";
+import { GAP_MODE_LABELS, findGaps, resolveGapPolicy } from "./gapFilling";
+
+// The workflow is a DAG of agents: a step starts once all of its dependencies are completed
+// or skipped, steps that become ready together run as one parallel wave, and a step whose
+// condition does not hold is skipped (which may in turn unblock its dependents).
+
+export const getDependencies = (agents: Agent[], agent: Agent): string[] => {
+  if (agent.dependsOn) {
+    return agent.dependsOn.filter(id => id !== agent.id && agents.some(a => a.id === id));
+  }
+  const index = agents.findIndex(a => a.id === agent.id);
+  return index > 0 ? [agents[index - 1].id] : [];
+};
+
+// All steps that (transitively) depend on the given one
+export const getDescendants = (agents: Agent[], id: string): Set<string> => {
+  const descendants = new Set<string>();
+  const visit = (current: string) => {
+    for (const agent of agents) {
+      if (!descendants.has(agent.id) && getDependencies(agents, agent).includes(current)) {
+        descendants.add(agent.id);
+        visit(agent.id);
+      }
+    }
+  };
+  visit(id);
+  return descendants;
+};
+
+// Longest-path depth of every step; also the column the builder draws it in.
+// Steps caught in a cycle are reported instead of being given a level.
+export const computeStepLevels = (agents: Agent[]): { levels: Record<string, number>; cyclic: string[] } => {
+  const levels: Record<string, number> = {};
+  const visiting = new Set<string>();
+  const cyclic = new Set<string>();
+
+  const levelOf = (agent: Agent): number => {
+    if (levels[agent.id] !== undefined) return levels[agent.id];
+    if (visiting.has(agent.id)) {
+      cyclic.add(agent.id);
+      return 0;
+    }
+    visiting.add(agent.id);
+    const deps = getDependencies(agents, agent).map(id => agents.find(a => a.id === id)!);
+    const level = deps.length === 0 ? 0 : Math.max(...deps.map(levelOf)) + 1;
+    visiting.delete(agent.id);
+    levels[agent.id] = level;
+    return level;
+  };
+
+  agents.forEach(levelOf);
+  return { levels, cyclic: Array.from(cyclic) };
+};
+
+// Steps without dependents, i.e. the current ends of the graph
+export const getSinkSteps = (agents: Agent[]): string[] =>
+  agents
+    .filter(agent => !agents.some(other => getDependencies(agents, other).includes(agent.id)))
+    .map(agent => agent.id);
+
+// Removes a step and hands its dependencies to the steps that waited on it,
+// so removing a middle step never turns a dependent into a root.
+export const removeStep = (agents: Agent[], id: string): Agent[] => {
+  const removed = agents.find(a => a.id === id);
+  if (!removed) return agents;
+  const inherited = getDependencies(agents, removed);
+  const remaining = agents.filter(a => a.id !== id);
+  return remaining.map(agent => {
+    if (!agent.dependsOn || !agent.dependsOn.includes(id)) {
+      // Implicit dependencies on the removed step fall through to the new previous agent
+      return agent;
+    }
+    const deps = agent.dependsOn.filter(dep => dep !== id);
+    inherited.forEach(dep => { if (!deps.includes(dep)) deps.push(dep); });
+    return { ...agent, dependsOn: deps };
+  });
+};
+
+// --- Conditions ---
+
+// Sections the content agents write: the children of every chapter, or the chapter
+// heading itself when it has no subsections.
+const getWritableSections = (structure: ThesisStructure): { chapterTitle: string; section: ThesisSection }[] => {
+  const writable: { chapterTitle: string; section: ThesisSection }[] = [];
+  structure.forEach((section, i) => {
+    if (section.level !== 1) return;
+    const children: ThesisSection[] = [];
+    for (let j = i + 1; j < structure.length && structure[j].level !== 1; j++) children.push(structure[j]);
+    (children.length > 0 ? children : [section]).forEach(s => writable.push({ chapterTitle: section.title, section: s }));
+  });
+  return writable;
+};
+
+export const countMissingSections = (structure: ThesisStructure, field: StepCondition['field']): number =>
+  getWritableSections(structure).filter(({ chapterTitle, section }) => {
+    const missingContent = !section.content?.trim();
+    const missingVisuals = !section.visuals?.trim() && !isVisualsExemptChapter(chapterTitle);
+    if (field === 'content') return missingContent;
+    if (field === 'visuals') return missingVisuals;
+    return missingContent || missingVisuals;
+  }).length;
+
+// Sections the Chief Editor would fill under its gap policy, which may count more than empty ones
+export const countGapSections = (structure: ThesisStructure, field: StepCondition['field'], policy: GapPolicy): number => {
+  const ids = new Set<string>();
+  if (field !== 'visuals') findGaps(structure, 'content', policy).forEach(gap => ids.add(gap.sectionId));
+  if (field !== 'content') findGaps(structure, 'visuals', policy).forEach(gap => ids.add(gap.sectionId));
+  return ids.size;
+};
+
+// A review agent's condition is checked against its gap policy, so it runs whenever it has work
+export const getConditionGapPolicy = (agent: Pick<Agent, 'kind' | 'gapPolicy'>): GapPolicy | undefined =>
+  agent.kind === 'review' ? resolveGapPolicy(agent.gapPolicy) : undefined;
+
+const FIELD_LABELS: Record<StepCondition['field'], string> = {
+  content: '正文',
+  visuals: '图表',
+  any: '正文或图表'
+};
+
+const describeCount = (field: StepCondition['field'], gapPolicy?: GapPolicy): string =>
+  gapPolicy ? `${FIELD_LABELS[field]}有缺口 (${GAP_MODE_LABELS[gapPolicy.mode]}) 的小节` : `缺失${FIELD_LABELS[field]}的小节`;
+
+export const describeCondition = (condition: StepCondition, gapPolicy?: GapPolicy): string =>
+  `${describeCount(condition.field, gapPolicy)} ≥ ${condition.minCount}`;
+
+export const evaluateCondition = (
+  condition: StepCondition | undefined,
+  structure: ThesisStructure,
+  gapPolicy?: GapPolicy
+): { pass: boolean; reason: string } => {
+  if (!condition) return { pass: true, reason: '' };
+  const missing = gapPolicy
+    ? countGapSections(structure, condition.field, gapPolicy)
+    : countMissingSections(structure, condition.field);
+  return {
+    pass: missing >= condition.minCount,
+    reason: `${describeCount(condition.field, gapPolicy)} ${missing} 个 (需要 ≥ ${condition.minCount})`
+  };
+};
+
+// --- Scheduling ---
+
+export interface WavePlan {
+  run: string[];
+  skipped: { id: string; reason: string }[];
+}
+
+// Picks the next wave: every pending step whose dependencies are done. Steps whose condition
+// fails are skipped and the search repeats, since skipping may unblock further steps.
+// Steps that errored stay unresolved and block their dependents.
+export const planNextWave = (agents: Agent[], structure: ThesisStructure): WavePlan => {
+  const done = new Set(agents.filter(a => a.status === 'completed' || a.status === 'skipped').map(a => a.id));
+  const skipped: WavePlan['skipped'] = [];
+
+  while (true) {
+    const ready = agents.filter(agent =>
+      !done.has(agent.id) &&
+      (agent.status === 'waiting' || agent.status === 'idle') &&
+      getDependencies(agents, agent).every(dep => done.has(dep))
+    );
+    if (ready.length === 0) return { run: [], skipped };
+
+    const run: string[] = [];
+    for (const agent of ready) {
+      const { pass, reason } = evaluateCondition(agent.condition, structure, getConditionGapPolicy(agent));
+      if (pass) {
+        run.push(agent.id);
+      } else {
+        done.add(agent.id);
+        skipped.push({ id: agent.id, reason });
+      }
+    }
+    if (run.length > 0) return { run, skipped };
+  }
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// Combines the structures returned by the steps of one wave. A step that changed the section
+// list (the architect) replaces the structure; otherwise each step contributes the fields it
+// changed relative to the structure the wave started from.
+export const mergeStepResults = (base: ThesisStructure, results: ThesisStructure[]): ThesisStructure => {
+  const sameSections = (a: ThesisStructure, b: ThesisStructure) =>
+    a.length === b.length && a.every((s, i) => s.id === b[i].id);
+
+  let merged: ThesisStructure = JSON.parse(JSON.stringify(base));
+  for (const result of results) {
+    if (!sameSections(base, result)) {
+      merged = JSON.parse(JSON.stringify(result));
+      continue;
+    }
+    if (!sameSections(merged, result)) continue;
+    result.forEach((section, i) => {
+      (Object.keys(section) as (keyof ThesisSection)[]).forEach(key => {
+        if (key === 'extraFields') return;
+        // Results are deep copies, so object fields (reviews, memory) only count as changed by value
+        if (!sameValue(section[key], base[i][key])) (merged[i] as any)[key] = section[key];
+      });
+      // Parallel custom agents write different extra fields of the same section, so merge per key
+      Object.entries(section.extraFields || {}).forEach(([key, value]) => {
+        if (value !== base[i].extraFields?.[key]) merged[i].extraFields = { ...merged[i].extraFields, [key]: value };
+      });
+    });
+  }
+  return merged;
+};
@@ -0,0 +1,235 @@
+import { Agent, AgentTemplate, WorkflowTemplate } from "../types";
+import { migrateAgents } from "./agentKinds";
+import { BUILT_IN_PROMPTS, BuiltInPromptKey } from "./builtInPrompts";
+import { renderUserPrompt } from "./userPromptTemplates";
+import { TemplateError } from "../utils/promptTemplate";
+
+// Built-in workflow templates and import/export of user templates. A template is the agent
+// graph without run state; exported files never contain thesis content or API keys.
+
+const MASTER_AGENTS: AgentTemplate[] = [
+  { 
+    id: '1', 
+    name: '架构师 (Architect)', 
+    role: '结构搭建', 
+    description: '生成高逻辑性的论文骨架 JSON。严格遵循“一章一方法一实验”的闭环原则。', 
+    icon: 'layout', 
+    systemPrompt: BUILT_IN_PROMPTS.architect_master,
+    builtInPrompts: { system: 'architect_master' },
+    kind: 'structure'
+  },
+  { 
+    id: '2', 
+    name: '内容策划 (Planner)', 
+    role: '正文填充', 
+    description: '按章批量生成学术正文（专注于纯文本、公式推导，不含图表）。', 
+    icon: 'pen', 
+    systemPrompt: BUILT_IN_PROMPTS.planner,
+    builtInPrompts: { system: 'planner' },
+    kind: 'content',
+    dependsOn: ['1']
+  },
+  { 
+    id: '3', 
+    name: '视觉/数据专家 (Visuals)', 
+    role: '图表植入', 
+    description: '生成 Markdown 表格源码与详细的图表分析描述 (第一章至总结前)。', 
+    icon: 'table', 
+    systemPrompt: BUILT_IN_PROMPTS.visuals,
+    builtInPrompts: { system: 'visuals' },
+    kind: 'visuals',
+    dependsOn: ['2']
+  },
+  {
+    id: 'final_draft',
+    name: '总编审 (Chief Editor)',
+    role: '终稿渲染与查漏', 
+    description: '检查全文完整性。若发现缺失的正文或图表，将自动进行补充生成，最后渲染终稿。', 
+    icon: 'merge', 
+    systemPrompt: BUILT_IN_PROMPTS.fixer_content,
+    visualsFixPrompt: BUILT_IN_PROMPTS.fixer_visuals,
+    builtInPrompts: { system: 'fixer_content', visualsFix: 'fixer_visuals' },
+    kind: 'review',
+    dependsOn: ['3'],
+    // Skipped when its gap policy finds nothing to fill (checked against the policy, see evaluateCondition)
+    condition: { type: 'missingSections', field: 'any', minCount: 1 }
+  }
+];
+
+// Adds a critic between the planner and the visuals expert, so figures are designed for the revised text
+const withReviewer = (agents: AgentTemplate[]): AgentTemplate[] => {
+  const planner = agents.find(agent => agent.kind === 'content')!;
+  const reviewer: AgentTemplate = {
+    id: 'reviewer',
+    name: '评审专家 (Reviewer)',
+    role: '评分与修订',
+    description: '从深度、严谨性、连贯性和规范性为每个小节打分，低于阈值的小节附评审意见退回内容策划修改。',
+    icon: 'search',
+    systemPrompt: BUILT_IN_PROMPTS.reviewer,
+    builtInPrompts: { system: 'reviewer' },
+    kind: 'critic',
+    dependsOn: [planner.id],
+    reviewPolicy: { threshold: 7, maxRounds: 2, reviserId: planner.id }
+  };
+  const plannerIndex = agents.indexOf(planner);
+  return [
+    ...agents.slice(0, plannerIndex + 1),
+    reviewer,
+    ...agents.slice(plannerIndex + 1).map(agent =>
+      agent.dependsOn?.includes(planner.id) ? { ...agent, dependsOn: agent.dependsOn.map(id => id === planner.id ? reviewer.id : id) } : agent
+    )
+  ];
+};
+
+// Same graph as the master's workflow with another outline architect
+const withArchitect = (promptKey: BuiltInPromptKey, description: string): AgentTemplate[] =>
+  MASTER_AGENTS.map(agent => agent.kind === 'structure'
+    ? { ...agent, systemPrompt: BUILT_IN_PROMPTS[promptKey], builtInPrompts: { system: promptKey }, description }
+    : agent);
+
+export const BUILT_IN_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'builtin_bachelor',
+    name: '本科毕业论文',
+    description: '设计与实现为主线，4-6 章。',
+    builtIn: true,
+    agents: withArchitect('architect_bachelor', '生成本科毕业论文骨架 JSON，以“需求分析-设计-实现-测试”为主线。')
+  },
+  {
+    id: 'builtin_master',
+    name: '硕士学位论文',
+    description: '“一章一方法一实验”的闭环结构，5-7 章。',
+    builtIn: true,
+    agents: MASTER_AGENTS
+  },
+  {
+    id: 'builtin_doctoral',
+    name: '博士学位论文',
+    description: '独立文献综述与多个递进的研究章节，7-9 章；正文经评审打分与修订。',
+    builtIn: true,
+    agents: withReviewer(withArchitect('architect_doctoral', '生成博士学位论文骨架 JSON，包含文献综述与多个递进的研究章节。'))
+  },
+  {
+    id: 'builtin_journal',
+    name: '期刊论文',
+    description: 'IMRaD 结构，单一核心贡献。',
+    builtIn: true,
+    agents: withArchitect('architect_journal', '生成期刊论文骨架 JSON，按引言-方法-实验-讨论-结论组织。')
+  }
+];
+
+export const DEFAULT_TEMPLATE_ID = 'builtin_master';
+
+// --- Conversion ---
+
+// Drops run state and any API key stored in the model overrides
+export const toAgentTemplate = (agent: Agent): AgentTemplate => {
+  const { status, wordCount, llmOverrides, promptVersions, ...rest } = agent;
+  if (!llmOverrides) return rest;
+  const { apiKey, ...overrides } = llmOverrides;
+  return Object.keys(overrides).length > 0 ? { ...rest, llmOverrides: overrides } : rest;
+};
+
+export const createTemplate = (name: string, description: string, agents: Agent[]): WorkflowTemplate => ({
+  id: `template_${Date.now().toString(36)}`,
+  name,
+  description,
+  agents: agents.map(toAgentTemplate)
+});
+
+export const instantiateTemplate = (template: WorkflowTemplate): Agent[] =>
+  migrateAgents(template.agents.map(agent => ({ ...agent, status: 'idle' as const })));
+
+export const findTemplate = (id: string): WorkflowTemplate | undefined =>
+  [...BUILT_IN_TEMPLATES, ...loadUserTemplates()].find(t => t.id === id);
+
+// --- User library (localStorage) ---
+
+const TEMPLATES_KEY = 'thesisforge.workflowTemplates';
+
+export const loadUserTemplates = (): WorkflowTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    const list = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveUserTemplates = (templates: WorkflowTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// Adds or replaces (same id) a template in the user library
+export const saveUserTemplate = (template: WorkflowTemplate) => {
+  const others = loadUserTemplates().filter(t => t.id !== template.id);
+  saveUserTemplates([...others, { ...template, builtIn: undefined }]);
+};
+
+export const deleteUserTemplate = (id: string) => {
+  saveUserTemplates(loadUserTemplates().filter(t => t.id !== id));
+};
+
+// --- Files ---
+
+const TEMPLATE_FILE_FORMAT = 'thesisforge.workflow';
+
+interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  template: WorkflowTemplate;
+}
+
+export const downloadTemplate = (template: WorkflowTemplate) => {
+  const file: TemplateFile = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    template: { ...template, builtIn: undefined, agents: template.agents.map(a => toAgentTemplate(a as Agent)) }
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `thesis_forge_workflow_${template.name.slice(0, 20)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Imported templates get a fresh id so they never overwrite a template already in the library
+export const parseTemplateFile = (raw: string): WorkflowTemplate => {
+  const json = JSON.parse(raw);
+  const template = json?.template;
+  if (json?.format !== TEMPLATE_FILE_FORMAT || !template || !Array.isArray(template.agents) || template.agents.length === 0) {
+    throw new Error("无效的工作流模板文件。");
+  }
+  const invalid = template.agents.find((a: any) => !a?.id || !a?.name || typeof a?.systemPrompt !== 'string');
+  if (invalid) throw new Error(`模板中的模块缺少 id、名称或提示词: ${invalid?.name || invalid?.id || '(未命名)'}`);
+  // User-prompt templates are parsed the way the prompt editor does, so a broken one fails here
+  // rather than in the middle of a run
+  for (const agent of template.agents) {
+    for (const field of ['userPromptTemplate', 'regenerateTemplate'] as const) {
+      const text = agent[field];
+      if (text === undefined) continue;
+      if (typeof text !== 'string') throw new Error(`模板中的模块「${agent.name}」提示词模板格式无效。`);
+      try {
+        renderUserPrompt(text, {});
+      } catch (e) {
+        if (!(e instanceof TemplateError)) throw e;
+        throw new Error(`模板中的模块「${agent.name}」提示词模板有误: ${e.message}`);
+      }
+    }
+  }
+
+  const agents = instantiateTemplate(template).map(toAgentTemplate);
+  return {
+    id: `template_${Date.now().toString(36)}`,
+    name: String(template.name || '导入的模板'),
+    description: String(template.description || ''),
+    agents
+  };
+};
@@ -1,5 +1,96 @@
 
-export type AgentStatus = 'idle' | 'working' | 'completed' | 'error' | 'waiting';
+export type AgentStatus = 'idle' | 'working' | 'completed' | 'error' | 'waiting' | 'skipped';
+
+// Gate checked against the current structure right before a step would run.
+// The step is skipped unless at least `minCount` sections still lack the field.
+export interface StepCondition {
+  type: 'missingSections';
+  field: 'content' | 'visuals' | 'any';
+  minCount: number;
+}
+
+// What an agent does. Behaviour is dispatched on this, never on the display name.
+// structure: builds the outline; content / visuals: write body text / figures per section;
+// review: fills whatever earlier steps left missing; critic: scores every section and sends weak ones
+// back to a content agent; transform: rewrites the existing text of its output field;
+// custom: user-defined module writing its output field.
+export type AgentKind = 'structure' | 'content' | 'visuals' | 'review' | 'critic' | 'transform' | 'custom';
+
+// ThesisSection field an agent writes (and rewrites on regeneration).
+// 'extra' = a named field the agent declares itself (see ExtraFieldSpec).
+export type AgentOutputField = 'title' | 'content' | 'visuals' | 'extra';
+
+// How an agent's answer is combined with text already in its output field:
+// replace it, append after it, or add/refresh a blockquote annotation attributed to the agent
+export type MergeMode = 'replace' | 'append' | 'annotate';
+
+// Named section field declared by a custom agent (notes, citations, reviewerComments, ...),
+// stored in ThesisSection.extraFields under `key`
+export interface ExtraFieldSpec {
+  key: string;
+  label: string;
+  // Shown in the result viewer
+  display: boolean;
+  // Included in Markdown / Word / LaTeX exports
+  exported: boolean;
+}
+
+// Settings of a critic agent's review → revise loop
+export interface ReviewPolicy {
+  // Sections whose overall score (1-10) is below this are sent back for revision
+  threshold: number;
+  // Revisions per section before the loop gives up and keeps the last version
+  maxRounds: number;
+  // Content agent that revises; defaults to the first content agent of the workflow
+  reviserId?: string;
+}
+
+// When the Chief Editor treats body text as missing: only whole empty chapters, every empty
+// section, or every section shorter than `minLength` characters (short ones are expanded)
+export type GapMode = 'chapter' | 'section' | 'minLength';
+
+export interface GapPolicy {
+  mode: GapMode;
+  minLength?: number;
+}
+
+// Prompts an agent runs with: its system prompt, its user-prompt template, the template of
+// section rewrites (manual and critic revisions), plus the visuals pass of review agents
+export type PromptSlot = 'system' | 'user' | 'regenerate' | 'visualsFix';
+
+// Saved state of one prompt slot; versions are append-only so past runs stay traceable
+export interface PromptVersion {
+  id: string;
+  slot: PromptSlot;
+  text: string;
+  savedAt: string;
+  note?: string;
+}
+
+// Prompt versions one step run used, kept in the session next to its output
+export interface StepPromptRecord {
+  agentId: string;
+  agentName: string;
+  runAt: string;
+  versionIds: Partial<Record<PromptSlot, string>>;
+}
+
+export type ReviewCriterion = 'depth' | 'rigor' | 'coherence' | 'format';
+
+// One round of a critic agent on one section
+export interface SectionReview {
+  round: number;
+  scores: Record<ReviewCriterion, number>;
+  // Mean of the criterion scores
+  overall: number;
+  comments: string[];
+  // Overall score reached the critic's threshold
+  passed: boolean;
+  // The section was sent back to the reviser with these comments after this round
+  revised: boolean;
+  reviewer: string;
+  timestamp: string;
+}
 
 export interface Agent {
   id: string;
@@ -9,8 +100,50 @@ export interface Agent {
   icon: 'layout' | 'flask' | 'image' | 'table' | 'bot' | 'search' | 'pen' | 'code' | 'merge';
   status: AgentStatus;
   systemPrompt: string;
+  // Template of the user prompt of the agent's main pass (see services/userPromptTemplates);
+  // unset = the default template of its kind
+  userPromptTemplate?: string;
+  // Template of the user prompt when selected sections are rewritten; unset = the default
+  regenerateTemplate?: string;
+  // Review agents only: prompt of the visuals fill-in pass (defaults to the built-in one)
+  visualsFixPrompt?: string;
+  // Built-in prompt each slot started from (keys of BUILT_IN_PROMPTS); what "reset" restores.
+  // The user slot always resets to the default template of the agent's kind
+  builtInPrompts?: Partial<Record<PromptSlot, string>>;
+  promptVersions?: PromptVersion[];
+  kind: AgentKind;
+  // Defaults to the kind's field (see services/agentKinds)
+  outputField?: AgentOutputField;
+  // Required when outputField is 'extra'
+  extraField?: ExtraFieldSpec;
+  // Defaults to 'replace'
+  mergeMode?: MergeMode;
   isCustom?: boolean;
   wordCount?: number;
+  // Optional per-agent model / endpoint settings layered over the global ApiConfig
+  llmOverrides?: AgentLLMOverrides;
+  // Always call the model for this agent, never serve from the response cache
+  bypassCache?: boolean;
+  // Steps that must be completed or skipped before this one starts.
+  // Unset = the previous agent in the list (the original linear pipeline).
+  dependsOn?: string[];
+  condition?: StepCondition;
+  // Critic agents only
+  reviewPolicy?: ReviewPolicy;
+  // Review (Chief Editor) agents only
+  gapPolicy?: GapPolicy;
+}
+
+// Shareable workflow: the agent graph with prompts, kinds and model overrides, but no thesis
+// content, run state, prompt history or API keys
+export type AgentTemplate = Omit<Agent, 'status' | 'wordCount' | 'promptVersions'>;
+
+export interface WorkflowTemplate {
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  agents: AgentTemplate[];
 }
 
 export interface UserInput {
@@ -19,11 +152,109 @@ export interface UserInput {
   specificFocus: string;
 }
 
+// Roles of the chat messages API. `system` turns are merged into the provider's system prompt.
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export type LLMProviderId = 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'replay';
+
 export interface ApiConfig {
+  provider: LLMProviderId;
   baseUrl: string;
   apiKey: string;
   modelName: string;
-  useCustom: boolean;
+  // Attempt budget for quota/transient failures (defaults to the retry policy's budget)
+  maxAttempts?: number;
+  temperature?: number;
+  maxTokens?: number;
+  // Chapters processed in parallel by content agents (defaults to DEFAULT_CHAPTER_CONCURRENCY)
+  concurrency?: number;
+  // Request starts per minute allowed for this provider; unset or 0 = unlimited
+  requestsPerMinute?: number;
+  // Token budget of the chapter summaries added to each prompt; 0 = thesis memory off
+  memoryTokenBudget?: number;
+  // Saved profile this config came from (used in log lines)
+  profileId?: string;
+  // Ordered profile IDs tried when this config hits quota, auth or repeated transient errors
+  fallbackProfileIds?: string[];
+}
+
+// A named, locally stored ApiConfig (university proxy, personal key, local model, ...)
+export interface ApiProfile {
+  id: string;
+  name: string;
+  config: ApiConfig;
+}
+
+// Empty / missing fields inherit from the global config
+export type AgentLLMOverrides = Partial<ApiConfig>;
+
+// Token usage of a single LLM call. `estimated` is set when the provider reported nothing
+// and the counts come from the local estimator.
+export interface LLMUsageEvent {
+  provider: LLMProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+  // Chapter batch the call belonged to, if any
+  chapter?: string;
+}
+
+export interface UsageRecord extends LLMUsageEvent {
+  agentId: string;
+  timestamp: string;
+}
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  estimated: boolean; // true if any call in the summary was estimated
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// How an LLM call uses the response cache.
+// default: read + write, refresh: skip read but store the new answer, bypass: no cache at all
+export type CacheMode = 'default' | 'refresh' | 'bypass';
+
+// When the workflow stops at a checkpoint between steps:
+// stepwise = after every step; onError = only when a step fails (including output that stayed
+// invalid after repair); unattended = never, with the session autosaved after every step.
+export type RunMode = 'stepwise' | 'onError' | 'unattended';
+
+// Callbacks threaded from the UI into the service layer during an agent run
+export interface RunHooks {
+  // Partial text of a section while its response is still streaming in
+  onSectionDelta?: (sectionId: string, field: 'content' | 'visuals', text: string) => void;
+  // Estimated output tokens received since the previous call (streamed deltas)
+  onTokens?: (tokens: number) => void;
+  // Progress messages for the System Logs panel (retries, batch splitting, ...)
+  onLog?: (message: string, type?: 'info' | 'success' | 'error') => void;
+  // Token usage of every completed LLM call (not called for cache hits)
+  onUsage?: (usage: LLMUsageEvent) => void;
+  // Response cache behaviour for this run
+  cacheMode?: CacheMode;
+  // Fires when the user presses Stop; in-flight requests are aborted
+  signal?: AbortSignal;
+  // Resuming a stopped step: chapters whose sections are already filled are skipped
+  resume?: boolean;
+  // Retrying the failed chapters of a step: only these sections run again, the rest stay as they are
+  onlySectionIds?: string[];
+  // Sections left without output because the answer stayed invalid after repair and batch splitting
+  onUnrecovered?: (sectionIds: string[]) => void;
 }
 
 export type DocumentHistory = Record<string, string>;
@@ -34,12 +265,29 @@ export interface GenerationProgress {
   totalSteps: number;
 }
 
+// Thesis memory: what a finished chapter established, fed into the prompts of other chapters
+export interface ChapterMemory {
+  contributions: string[];
+  notation: string[];
+  datasets: string[];
+  results: string[];
+  // Hash of the chapter text the summary was made from; a different hash means it is stale
+  sourceHash: string;
+  updatedAt: string;
+}
+
 export interface ThesisSection {
   id: string;
   title: string;
   level: number;
   content?: string;
   visuals?: string;
+  // Fields written by custom agents, keyed by ExtraFieldSpec.key
+  extraFields?: Record<string, string>;
+  // Review → revise history of the latest critic run, oldest round first
+  reviews?: SectionReview[];
+  // Summary of the whole chapter for later prompts (level-1 sections only)
+  memory?: ChapterMemory;
   isLeaf?: boolean;
 }
 
@@ -0,0 +1,6 @@
+// Short, stable content hash (djb2) for recognising unchanged text; not for security
+export const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
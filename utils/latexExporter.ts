@@ -1,5 +1,5 @@
 
-import { ThesisStructure } from "../types";
+import { ExtraFieldSpec, ThesisStructure } from "../types";
 import JSZip from "jszip";
 import saveAs from "file-saver";
 
@@ -134,7 +134,8 @@ const convertMarkdownToLatex = (md: string): string => {
 
 export const downloadLatexZip = async (
   structure: ThesisStructure, 
-  topic: string = "Thesis"
+  topic: string = "Thesis",
+  extraFields: ExtraFieldSpec[] = []
 ) => {
   const zip = new JSZip();
   const safeName = sanitizeFilename(topic);
@@ -168,6 +169,14 @@ export const downloadLatexZip = async (
           const visualLines = section.visuals.split('\n');
           fullLatexBody += visualLines.map(l => `% ${l}`).join('\n') + "\n";
       }
+
+      // Add exported custom fields (notes, citations, ...) as unnumbered paragraphs
+      extraFields.forEach(spec => {
+          const text = section.extraFields?.[spec.key];
+          if (spec.exported && text?.trim()) {
+              fullLatexBody += `\n\\paragraph*{${spec.label}}\n` + convertMarkdownToLatex(text) + "\n";
+          }
+      });
   });
 
   const mainTex = MAIN_TEX_TEMPLATE
@@ -0,0 +1,103 @@
+
+// Incremental parser for the flat `{ "ID": "Markdown..." }` objects returned by
+// the content agents. While a response is still streaming the JSON is truncated,
+// so JSON.parse cannot be used. This walks the text and returns every key whose
+// string value has started, with the (possibly unfinished) value decoded so far.
+
+const ESCAPES: Record<string, string> = {
+  'n': '\n',
+  't': '\t',
+  'r': '\r',
+  'b': '\b',
+  'f': '\f',
+  '"': '"',
+  '\\': '\\',
+  '/': '/'
+};
+
+// Reads a JSON string starting right after its opening quote.
+// Returns the decoded value, the index after the closing quote and whether the string was closed.
+const readString = (text: string, start: number): { value: string; end: number; closed: boolean } => {
+  let value = '';
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') return { value, end: i + 1, closed: true };
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === undefined) break; // Escape cut off mid-stream
+      if (next === 'u') {
+        const hex = text.substring(i + 2, i + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  return { value, end: text.length, closed: false };
+};
+
+// Skips a non-string value (number, object, array, literal). Returns the index after it.
+const skipValue = (text: string, start: number): number => {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      i = readString(text, i + 1).end;
+      continue;
+    }
+    if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      if (depth === 0) return i;
+      depth--;
+      if (depth === 0) return i + 1;
+    } else if (ch === ',' && depth === 0) return i;
+    i++;
+  }
+  return text.length;
+};
+
+export const parsePartialJsonObject = (text: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (!text) return result;
+
+  // Skip any preamble or ```json fence before the object starts
+  let i = text.indexOf('{');
+  if (i === -1) return result;
+  i++;
+
+  while (i < text.length) {
+    // Find the next key
+    while (i < text.length && /[\s,]/.test(text[i])) i++;
+    if (i >= text.length || text[i] === '}') break;
+    if (text[i] !== '"') break; // Not a flat object, give up quietly
+
+    const key = readString(text, i + 1);
+    if (!key.closed) break;
+    i = key.end;
+
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (text[i] !== ':') break;
+    i++;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (i >= text.length) break;
+
+    if (text[i] === '"') {
+      const value = readString(text, i + 1);
+      result[key.value] = value.value;
+      if (!value.closed) break;
+      i = value.end;
+    } else {
+      i = skipValue(text, i);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,110 @@
+// Minimal mustache-style template engine for agent prompts.
+//   {{name}}                          variable (missing / null → empty)
+//   {{#if name}} ... {{else}} ... {{/if}}   truthy check ("" / false / 0 / missing are false)
+//   {{#unless name}} ... {{/unless}}  negated check
+//   {{> partialName}}                 inlines a named partial, rendered with the same variables
+
+export type TemplateValue = string | number | boolean | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'var'; name: string }
+  | { type: 'partial'; name: string }
+  | { type: 'if'; name: string; negate: boolean; then: Node[]; otherwise: Node[] };
+
+const TAG_PATTERN = /\{\{\s*([#/>]?)\s*([\w.]*)\s*([\w.]*)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+const parse = (template: string): Node[] => {
+  const root: Node[] = [];
+  // Open blocks; `target` is the branch new nodes go to
+  const stack: { node: Extract<Node, { type: 'if' }>; target: Node[]; keyword: string }[] = [];
+  const current = () => stack.length > 0 ? stack[stack.length - 1].target : root;
+
+  let last = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, word, arg] = match;
+    if (match.index! > last) current().push({ type: 'text', text: template.slice(last, match.index) });
+    last = match.index! + tag.length;
+
+    if (sigil === '#') {
+      if (word !== 'if' && word !== 'unless') throw new TemplateError(`Unknown block "{{#${word}}}"`);
+      if (!arg) throw new TemplateError(`"{{#${word}}}" needs a variable name`);
+      const node: Extract<Node, { type: 'if' }> = { type: 'if', name: arg, negate: word === 'unless', then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.then, keyword: word });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.keyword !== word) throw new TemplateError(`Unexpected "{{/${word}}}"`);
+    } else if (sigil === '>') {
+      if (!word) throw new TemplateError('"{{>}}" needs a partial name');
+      current().push({ type: 'partial', name: word });
+    } else if (word === 'else' && !arg) {
+      const open = stack[stack.length - 1];
+      if (!open || open.target === open.node.otherwise) throw new TemplateError('Unexpected "{{else}}"');
+      open.target = open.node.otherwise;
+    } else {
+      current().push({ type: 'var', name: word });
+    }
+  }
+  if (stack.length > 0) throw new TemplateError(`Unclosed "{{#${stack[stack.length - 1].keyword} ${stack[stack.length - 1].node.name}}}"`);
+  if (last < template.length) root.push({ type: 'text', text: template.slice(last) });
+  return root;
+};
+
+export const renderTemplate = (
+  template: string,
+  variables: TemplateVariables,
+  partials: Record<string, string> = {},
+  depth: number = 0
+): string => {
+  if (depth > MAX_PARTIAL_DEPTH) throw new TemplateError('Partials nested too deeply (recursive partial?)');
+
+  const renderNodes = (nodes: Node[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text': return node.text;
+      case 'var': {
+        const value = variables[node.name];
+        return value === undefined || value === null ? '' : String(value);
+      }
+      case 'partial': {
+        if (!(node.name in partials)) throw new TemplateError(`Unknown partial "{{> ${node.name}}}"`);
+        return renderTemplate(partials[node.name], variables, partials, depth + 1);
+      }
+      case 'if': {
+        const truthy = !!variables[node.name];
+        return renderNodes(truthy !== node.negate ? node.then : node.otherwise);
+      }
+    }
+  }).join('');
+
+  return renderNodes(parse(template));
+};
+
+// Variables a template (and the partials it uses) refers to, for the editor's reference list
+export const listTemplateVariables = (template: string, partials: Record<string, string> = {}): string[] => {
+  const names = new Set<string>();
+  const seenPartials = new Set<string>();
+  const visit = (nodes: Node[]) => nodes.forEach(node => {
+    if (node.type === 'var') names.add(node.name);
+    if (node.type === 'if') {
+      names.add(node.name);
+      visit(node.then);
+      visit(node.otherwise);
+    }
+    if (node.type === 'partial' && node.name in partials && !seenPartials.has(node.name)) {
+      seenPartials.add(node.name);
+      visit(parse(partials[node.name]));
+    }
+  });
+  visit(parse(template));
+  return Array.from(names);
+};
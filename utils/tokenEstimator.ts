@@ -0,0 +1,11 @@
+
+// Rough local token estimator used when a provider does not report usage.
+// CJK characters are usually one token each; for Latin text ~4 chars per token is a fair average.
+const CJK_REGEX = /[　-〿㐀-䶿一-鿿＀-￯]/g;
+
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_REGEX) || []).length;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+};